@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Message, PendingAction } from '@/types/chat';
+
+// The scripted provider and the in-process Needpedia API; nothing may reach the network
+vi.hoisted(() => {
+  process.env.LLM_PROVIDER = 'mock';
+  process.env.CHAT_STORE = 'memory';
+});
+
+// Backend thread records and token charges are not what this test is about, and would write data/outbox
+vi.mock('@/utils/outbox', async importOriginal => ({
+  ...await importOriginal<typeof import('@/utils/outbox')>(),
+  enqueueConversationSnapshot: vi.fn(async () => undefined),
+  enqueueThreadRecord: vi.fn(async () => undefined),
+  enqueueTokenDecrement: vi.fn(async () => undefined),
+}));
+
+import { POST } from '@/app/api/chat/route';
+import { mockApiFetch, resetMockApi } from '@/utils/tools/mockApi';
+
+interface TurnResponse {
+  conversationId: string;
+  choices: Array<{ message: Message }>;
+  pendingActions: PendingAction[];
+  messages: Message[];
+}
+
+const sendTurn = async (content: string, conversationId?: string): Promise<TurnResponse> => {
+  const response = await POST(new Request('http://localhost/api/chat', {
+    method: 'POST',
+    body: JSON.stringify({ userToken: 'user-token', conversationId, messages: [{ role: 'user', content }] }),
+  }));
+  expect(response.status).toBe(200);
+  return response.json() as Promise<TurnResponse>;
+};
+
+describe('POST /api/chat with the mock provider', () => {
+  const network = vi.fn(async (input: RequestInfo | URL) => {
+    throw new Error(`Unexpected request to ${String(input)}`);
+  });
+
+  beforeAll(() => {
+    resetMockApi();
+    vi.stubGlobal('fetch', network);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('previews a post through tool rounds, then publishes it once the user says yes', async () => {
+    const preview = await sendTurn('Please create a new idea about bike lanes');
+    expect(preview.choices[0].message.content).toContain('Reply "yes" to publish it');
+    expect(preview.pendingActions).toHaveLength(1);
+    expect(preview.pendingActions[0]).toMatchObject({
+      tool: 'create_content',
+      preview: { title: 'Protected bike lanes on arterial roads', content_type: 'idea', parent_id: '7' },
+    });
+    const reply = preview.choices[0].message;
+    expect(reply.metadata?.tools?.map(tool => [tool.name, tool.ok])).toEqual([['find_content', true], ['create_content', true]]);
+
+    const published = await sendTurn('yes', preview.conversationId);
+    expect(published.choices[0].message.content).toBe('Your idea **Protected bike lanes on arterial roads** has been published.');
+    expect(published.choices[0].message.metadata?.tools?.map(tool => [tool.name, tool.ok])).toEqual([['create_content', true]]);
+    expect(published.pendingActions).toEqual([]);
+    expect(published.messages.map(m => m.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+
+    const search = await mockApiFetch('http://localhost/api/v1/posts?type=idea&q[title_cont]=Protected bike lanes');
+    const { content } = await search.json() as { content: Array<{ problem_id?: string }> };
+    expect(content).toEqual([expect.objectContaining({ problem_id: '7' })]);
+
+    // Only the balance check tried the network, and the turns went on without it
+    const tried = network.mock.calls.map(([input]) => new URL(String(input)).pathname);
+    expect(new Set(tried)).toEqual(new Set(['/api/v1/tokens/balance']));
+  });
+});
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { ActionChanges, ActionDecision, PendingActionError, resolvePendingAction } from '@/utils/pendingActions';
+import { ConversationIdError, assertConversationId } from '@/utils/conversationId';
+import { ConversationNotFoundError, openConversation } from '@/utils/conversationAccess';
+
+const DECISIONS: ActionDecision[] = ['approve', 'reject', 'edit'];
+
+// Approve, edit or reject a previewed write without another model round-trip
+export async function POST(req: Request) {
+  try {
+    const { conversationId, userToken, ticketId, decision, changes } = await req.json() as {
+      conversationId?: string;
+      userToken?: string;
+      ticketId?: string;
+      decision?: ActionDecision;
+      changes?: ActionChanges;
+    };
+
+    if (!userToken) {
+      return NextResponse.json({ error: 'Unauthenticated: missing user token' }, { status: 401 });
+    }
+    if (!conversationId || !ticketId || !decision || !DECISIONS.includes(decision)) {
+      return NextResponse.json(
+        { error: `conversationId, ticketId and a decision (${DECISIONS.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+
+    assertConversationId(conversationId);
+    await openConversation(conversationId, userToken);
+
+    const outcome = await resolvePendingAction(conversationId, userToken, ticketId, decision, changes);
+    return NextResponse.json({ conversationId, ...outcome });
+  } catch (error: unknown) {
+    if (error instanceof ConversationIdError || error instanceof ConversationNotFoundError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    const status = error instanceof PendingActionError ? error.status : 500;
+    const message = error instanceof Error ? error.message : 'Failed to resolve the preview';
+    return NextResponse.json({ error: message }, { status });
+  }
+}
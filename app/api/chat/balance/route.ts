@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getTokenBalance } from '@/utils/tokenBalance';
+
+// The user's remaining token balance, used to draw the sidebar HP bar
+export async function POST(req: Request) {
+  try {
+    const { userToken } = await req.json() as { userToken?: string };
+
+    if (!userToken) {
+      return NextResponse.json({ error: 'Unauthenticated: missing user token' }, { status: 401 });
+    }
+
+    const balance = await getTokenBalance(userToken, { fresh: true });
+    return NextResponse.json({ balance: balance ?? null });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to load the token balance';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { conversationStore } from '@/utils/memory';
+import { ConversationTreeError } from '@/utils/conversationTree';
+import { enqueueConversationSnapshot } from '@/utils/outbox';
+import { ConversationNotFoundError, openConversation } from '@/utils/conversationAccess';
+import { ConversationIdError, assertConversationId } from '@/utils/conversationId';
+
+// Show another version of an edited or regenerated message; the choice is saved with the conversation
+export async function POST(req: Request) {
+  try {
+    const { conversationId, userToken, messageId } = await req.json() as {
+      conversationId?: string;
+      userToken?: string;
+      messageId?: string;
+    };
+
+    if (!userToken) {
+      return NextResponse.json({ error: 'Unauthenticated: missing user token' }, { status: 401 });
+    }
+    if (!conversationId || !messageId) {
+      return NextResponse.json({ error: 'Conversation ID and message ID are required' }, { status: 400 });
+    }
+
+    assertConversationId(conversationId);
+
+    await openConversation(conversationId, userToken);
+    const branch = conversationStore.switchBranch(conversationId, messageId);
+    if (!branch) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    enqueueConversationSnapshot(conversationId).catch(() => {});
+
+    return NextResponse.json({
+      conversationId,
+      messages: branch.filter(m => m.role !== 'system')
+    });
+  } catch (error: unknown) {
+    if (error instanceof ConversationTreeError || error instanceof ConversationIdError || error instanceof ConversationNotFoundError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to switch branch';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { listPendingActions } from '@/utils/pendingActions';
+import { EXPORT_FORMATS, ExportFormat, buildConversationBundle, toHtmlTranscript, toMarkdownTranscript } from '@/utils/conversationExport';
+import { ConversationIdError, assertConversationId } from '@/utils/conversationId';
+import { ConversationNotFoundError, openConversation } from '@/utils/conversationAccess';
+
+const CONTENT_TYPES: Record<ExportFormat, { type: string; extension: string }> = {
+  markdown: { type: 'text/markdown; charset=utf-8', extension: 'md' },
+  html: { type: 'text/html; charset=utf-8', extension: 'html' },
+  json: { type: 'application/json; charset=utf-8', extension: 'json' },
+};
+
+// Download a conversation as a Markdown transcript, a standalone HTML page or an importable JSON bundle
+export async function POST(req: Request) {
+  try {
+    const { conversationId, userToken, format = 'markdown', title } = await req.json() as {
+      conversationId?: string;
+      userToken?: string;
+      format?: ExportFormat;
+      // The title the sidebar shows for the conversation
+      title?: string;
+    };
+
+    if (!userToken) {
+      return NextResponse.json({ error: 'Unauthenticated: missing user token' }, { status: 401 });
+    }
+    if (!conversationId) {
+      return NextResponse.json({ error: 'Conversation ID is required' }, { status: 400 });
+    }
+    assertConversationId(conversationId);
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `Unknown format; use one of ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    await openConversation(conversationId, userToken);
+    const bundle = await buildConversationBundle(conversationId, listPendingActions(conversationId, userToken), title);
+    if (!bundle) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const body = format === 'json'
+      ? JSON.stringify(bundle, null, 2)
+      : format === 'html' ? toHtmlTranscript(bundle) : toMarkdownTranscript(bundle);
+    const { type, extension } = CONTENT_TYPES[format];
+    const filename = `lotte-${conversationId.slice(0, 8)}-${bundle.exportedAt.slice(0, 10)}.${extension}`;
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': type,
+        'Content-Disposition': `attachment; filename="${filename.replace(/[^\w.-]/g, '_')}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error: unknown) {
+    if (error instanceof ConversationIdError || error instanceof ConversationNotFoundError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to export the conversation';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
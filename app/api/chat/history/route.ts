@@ -1,52 +1,20 @@
 import { NextResponse } from 'next/server';
-import { conversationStore } from '@/utils/memory';
-import { loadConversationFromDisk } from '@/utils/conversationPersistence';
-import { Message } from '@/types/chat';
+import { listPendingActions } from '@/utils/pendingActions';
+import { ConversationNotFoundError, openConversation, ownerOf } from '@/utils/conversationAccess';
+import { ConversationIdError, assertConversationId } from '@/utils/conversationId';
+import { waitForTurn } from '@/utils/abort';
 
-const getBackendMessages = async (conversationId: string, userToken?: string): Promise<Message[] | null> => {
-  const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000';
-  const url = `${baseUrl}/api/v1/chat_threads/${conversationId}`;
-
-  try {
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(userToken ? { 'Authorization': userToken, 'token': userToken } : {}),
-        ...(process.env.POST_TOKEN ? { 'X-Internal-Auth': process.env.POST_TOKEN } : {})
-      }
-    });
-
-    if (!response.ok) {
-      console.warn(`History API: Backend returned ${response.status} for ${conversationId}`);
-      return null;
-    }
-
-    const data = await response.json().catch(() => null);
-    if (!data) return null;
-
-    const messages: Message[] =
-      data?.messages ||
-      data?.chat_thread?.messages ||
-      data?.thread?.messages ||
-      data?.conversation?.messages ||
-      [];
-
-    if (Array.isArray(messages) && messages.length) {
-      console.log(`History API: Retrieved ${messages.length} messages from backend for ${conversationId}`);
-      return messages;
-    }
-    return null;
-  } catch (error) {
-    console.warn(`History API: Failed to load backend messages for ${conversationId}`, error);
-    return null;
-  }
-};
+// How long a read right after Stop waits for the stopped turn to be recorded
+const STOPPED_TURN_WAIT_MS = 3_000;
 
 export async function POST(req: Request) {
   try {
-    const { conversationId, userToken } = await req.json();
+    // `afterStop`: the user just stopped a turn of this conversation and wants it as recorded
+    const { conversationId, userToken, afterStop } = await req.json();
 
+    if (!userToken) {
+      return NextResponse.json({ error: 'Unauthenticated: missing user token' }, { status: 401 });
+    }
     if (!conversationId) {
       return NextResponse.json(
         { error: 'Conversation ID is required' },
@@ -54,25 +22,14 @@ export async function POST(req: Request) {
       );
     }
 
-    console.log('History API: Getting conversation history for', conversationId);
-    let history = conversationStore.get(conversationId);
+    assertConversationId(conversationId);
+    // A stopped first turn records the conversation's owner only as it ends, so the wait comes before
+    // openConversation checks ownership; it only ever waits on a turn this user started
+    if (afterStop === true) await waitForTurn(conversationId, ownerOf(userToken), STOPPED_TURN_WAIT_MS);
 
-    if (!history || history.length === 0) {
-      const backendHistory = await getBackendMessages(conversationId, userToken);
-      if (backendHistory && backendHistory.length > 0) {
-        history = backendHistory;
-        conversationStore.set(conversationId, backendHistory);
-      }
-    }
+    console.log('History API: Getting conversation history for', conversationId);
+    const history = await openConversation(conversationId, userToken);
 
-    if (!history || history.length === 0) {
-      const diskHistory = await loadConversationFromDisk(conversationId);
-      if (diskHistory && diskHistory.length > 0) {
-        history = diskHistory;
-        conversationStore.set(conversationId, diskHistory);
-      }
-    }
-    
     if (!history || history.length === 0) {
       console.log('History API: No history found for', conversationId);
       return NextResponse.json(
@@ -88,10 +45,14 @@ export async function POST(req: Request) {
     
     return NextResponse.json({
       messages: displayMessages,
-      conversationId: conversationId
+      conversationId: conversationId,
+      pendingActions: listPendingActions(conversationId, userToken)
     });
 
   } catch (error: unknown) {
+    if (error instanceof ConversationIdError || error instanceof ConversationNotFoundError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
     console.error('History API Error:', error);
     const message = error instanceof Error ? error.message : 'Failed to get conversation history';
     
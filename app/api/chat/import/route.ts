@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { MAX_STORED_MESSAGES, conversationStore } from '@/utils/memory';
+import { enqueueConversationSnapshot, enqueueThreadRecord, toThreadMessage } from '@/utils/outbox';
+import { ConversationBundleError, parseConversationBundle } from '@/utils/conversationExport';
+import { ownerOf } from '@/utils/conversationAccess';
+import { givenTitle } from '@/utils/conversationTitle';
+
+const previewText = (text: string, maxLength: number): string => {
+  if (!text) return '';
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+};
+
+// Recreate a conversation from a JSON export under a new ID, so it can be continued.
+// Previews in the export are not restored: approving a write needs a fresh preview.
+export async function POST(req: Request) {
+  try {
+    const { userToken, bundle } = await req.json() as {
+      userToken?: string;
+      bundle?: unknown;
+    };
+
+    if (!userToken) {
+      return NextResponse.json({ error: 'Unauthenticated: missing user token' }, { status: 401 });
+    }
+    if (!bundle) {
+      return NextResponse.json({ error: 'An exported conversation is required' }, { status: 400 });
+    }
+
+    const { tree, summary, title, titled } = parseConversationBundle(bundle);
+    // Held to the length of a conversation kept here, like every turn does
+    tree.trim(MAX_STORED_MESSAGES);
+    const conversationId = randomUUID();
+    conversationStore.setTree(conversationId, tree);
+    conversationStore.setOwner(conversationId, ownerOf(userToken));
+    if (summary) conversationStore.setSummary(conversationId, summary);
+
+    const messages = tree.messages().filter(m => m.role !== 'system');
+    // Without a title of its own, the conversation gets one written after its next turn
+    if (titled) conversationStore.setTitle(conversationId, givenTitle(title, messages));
+    const lastMessage = previewText([...messages].reverse().find(m => m.role === 'assistant')?.content || '', 160);
+    enqueueConversationSnapshot(conversationId).catch(() => {});
+    enqueueThreadRecord(
+      conversationId,
+      userToken,
+      'import',
+      messages.filter(m => m.role === 'user' || m.role === 'assistant').map(m => toThreadMessage(m, { imported: true })),
+      { title, lastMessage }
+    ).catch((error: unknown) => console.warn('Import: failed to queue thread history', error));
+
+    return NextResponse.json({ conversationId, title, lastMessage, messages });
+  } catch (error: unknown) {
+    if (error instanceof ConversationBundleError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'The request body is not valid JSON' }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to import the conversation';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
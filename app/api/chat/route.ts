@@ -1,166 +1,34 @@
 import { NextResponse } from 'next/server';
-import { Message } from '@/types/chat';
+import { ChatStreamEvent, Message, MessageMetadata, MessageUsage, PendingAction, TokenBalance, ToolCallSummary } from '@/types/chat';
 import { SYSTEM_PROMPT } from '@/app/prompts/system';
 import axios from 'axios';
-import { conversationStore } from '@/utils/memory';
-import { saveConversationToDisk } from '@/utils/conversationPersistence';
+import { MAX_STORED_MESSAGES, conversationStore } from '@/utils/memory';
+import { enqueueConversationSnapshot, enqueueThreadRecord, toThreadMessage } from '@/utils/outbox';
+import { encodeSseEvent } from '@/utils/sse';
+import { getChatProvider } from '@/utils/llm';
+import { ModelChainExhaustedError, ModelRouter, loadModelChain } from '@/utils/llm/modelRouter';
+import { UsageMetrics } from '@/types/llm';
+import { executeToolCall, getToolDefinitions } from '@/utils/tools/registry';
+import { FindContentResult } from '@/utils/tools/findContent';
+import { confirmationTickets, describeApprovedTickets, isApprovalMessage } from '@/utils/confirmationTickets';
+import { listPendingActions } from '@/utils/pendingActions';
+import { estimateMessagesTokens, planContext } from '@/utils/contextWindow';
+import { buildSummaryMessage, collectFacts, emptySummary, estimateSummaryTokens, mergeFacts, summarizeMessages, summaryForBranch } from '@/utils/conversationSummary';
+import { QuotaExceededError, assertTokensAvailable, extractTokenCount, recordTokenUsage } from '@/utils/tokenBalance';
+import { CANCELLED_NOTE, TurnCancelledError, isAbortError, trackTurn } from '@/utils/abort';
+import { ConversationTreeError } from '@/utils/conversationTree';
+import { refreshConversationTitle } from '@/utils/conversationTitle';
+import { ConversationNotFoundError, openConversation, ownerOf } from '@/utils/conversationAccess';
+import { ConversationIdError, assertConversationId } from '@/utils/conversationId';
 import { randomUUID } from 'crypto';
-import http from 'http';
-import https from 'https';
-
-// Reuse connections to reduce handshake latency
-const httpAgent = new http.Agent({ keepAlive: true, maxSockets: 50 });
-const httpsAgent = new https.Agent({ keepAlive: true, maxSockets: 50 });
-
-// Short-lived cache for tool results to avoid duplicate backend calls
-// Keyed by `${toolName}|${stableArgs}`
-const toolResultCache: Map<string, { expiryMs: number; payload: unknown }> = new Map();
-const TOOL_CACHE_TTL_MS = 5_000; // 5 seconds dedupe window
-
-const openRouterClient = axios.create({
-  baseURL: 'https://openrouter.ai/api/v1',
-  headers: {
-    'Content-Type': 'application/json',
-    'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-  },
-  httpAgent,
-  httpsAgent,
-  timeout: 60_000,
-});
-
-// Limit the number of prior messages sent to the model to cut prompt latency
-const MAX_CONTEXT_MESSAGES = Number(process.env.CHAT_MAX_CONTEXT || 16);
-const MAX_STORED_MESSAGES = Number(process.env.CHAT_MAX_STORED || 64);
-
-interface FindContentArgs {
-  query: string;
-  type?: string;
-}
-
-interface CreateContentArgs {
-  title: string;
-  description: string;
-  content_type: string;
-  parent_id?: string;
-  confirm?: boolean;
-}
-
-interface EditContentArgs {
-  content_id: string;
-  changes: {
-    title?: string;
-    description?: string;
-  };
-  confirm?: boolean;
-}
-
-type FunctionArgs = FindContentArgs | CreateContentArgs | EditContentArgs;
-
-interface FindContentResult {
-  items: Array<{ title: string; type: string; id?: string; link?: string }>;
-}
-
-interface CreateContentResult {
-  requires_confirmation?: boolean;
-  preview?: {
-    title: string;
-    content_type: string;
-    description: string;
-    html: string;
-    plain_text: string;
-    parent_id?: string;
-  };
-  instructions?: string;
-  post?: {
-    link: string;
-    title: string;
-    content: string;
-    post_type: string;
-    curated: boolean;
-    group_id?: string;
-    disabled: boolean;
-    private: boolean;
-    problem?: string;
-    subject?: string;
-  };
-}
-
-interface EditContentResult {
-  requires_confirmation?: boolean;
-  preview?: {
-    content_id: string;
-    title?: string;
-    description?: string;
-    html?: string;
-    plain_text?: string;
-  };
-  instructions?: string;
-  post?: {
-    link: string;
-    title: string;
-    content: string;
-    post_type: string;
-    curated: boolean;
-    group_id?: string;
-    disabled: boolean;
-    private: boolean;
-    problem?: string;
-    subject?: string;
-  };
-}
-
-type FunctionResult = FindContentResult | CreateContentResult | EditContentResult;
-
-interface NeedpediaPost {
-  id?: string | number;
-  title?: string;
-  post_type?: string;
-  link?: string;
-  url?: string;
-  post_url?: string;
-}
-
-type NeedpediaContentBuckets = Partial<Record<'subjects' | 'problems' | 'ideas', NeedpediaPost[]>> & Record<string, NeedpediaPost[] | undefined>;
-interface CreatePostPayload {
-  post: {
-    title: string;
-    post_type: string;
-    content: {
-      body: string;
-    };
-    subject_id?: string;
-    problem_id?: string;
-  };
-}
-
-interface UpdatePostPayload {
-  post: Record<string, unknown>;
-}
-
-const isRecord = (value: unknown): value is Record<string, unknown> => {
-  return typeof value === 'object' && value !== null;
-};
 
-const isNeedpediaPost = (value: unknown): value is NeedpediaPost => {
-  if (!isRecord(value)) return false;
-  return typeof value.title === 'string' || typeof value.post_type === 'string';
-};
-
-const normalizePostArray = (value: unknown): NeedpediaPost[] => {
-  return Array.isArray(value) ? value.filter(isNeedpediaPost) : [];
-};
-
-type ToolFunction = (args: FunctionArgs) => Promise<FunctionResult>;
-type ToolMap = Record<'find_content' | 'create_content' | 'edit_content', ToolFunction>;
+// Estimated token budget for the prompt; older turns beyond it are folded into a rolling summary
+const CONTEXT_TOKEN_BUDGET = Number(process.env.CHAT_CONTEXT_TOKENS || 6000);
+// Optional hard cap on the number of history messages sent, on top of the token budget
+const MAX_CONTEXT_MESSAGES = process.env.CHAT_MAX_CONTEXT ? Number(process.env.CHAT_MAX_CONTEXT) : undefined;
 
 type ToolResultMessage = Message & { role: 'tool'; tool_call_id: string; name: string };
-type ExecutedToolResult = { name: keyof ToolMap; result: FunctionResult };
-type UsageMetrics = {
-  total_tokens?: number;
-  total?: number;
-  completion_tokens?: number;
-};
-type UsageEnvelope = { usage?: UsageMetrics };
+type ExecutedToolResult = { name: string; result: unknown };
 type ErrorPayload = { error?: string | { message?: string } };
 
 const getErrorMessage = (error: unknown): string => {
@@ -172,268 +40,6 @@ const getErrorMessage = (error: unknown): string => {
   }
 };
 
-const extractTokenCount = (usage?: UsageMetrics): number => {
-  if (!usage) return 0;
-  const total = usage.total_tokens ?? usage.total ?? usage.completion_tokens ?? 0;
-  return Number.isFinite(total) ? Number(total) : 0;
-};
-
-const isFindContentArgs = (args: FunctionArgs): args is FindContentArgs => {
-  return 'query' in args;
-};
-
-const isCreateContentArgs = (args: FunctionArgs): args is CreateContentArgs => {
-  return 'title' in args && 'description' in args && 'content_type' in args;
-};
-
-const isEditContentArgs = (args: FunctionArgs): args is EditContentArgs => {
-  return 'content_id' in args && 'changes' in args;
-};
-
-// Convert simple Markdown/plain text to minimal HTML suitable for rich text fields
-const toRichHtml = (input: string): string => {
-  const text = (input || '').replace(/\r\n/g, '\n');
-  const lines = text.split(/\n/);
-  const htmlParts: string[] = [];
-  let listBuffer: string[] = [];
-  const flushList = () => {
-    if (listBuffer.length > 0) {
-      htmlParts.push('<ul>');
-      listBuffer.forEach(li => htmlParts.push(`<li>${li}</li>`));
-      htmlParts.push('</ul>');
-      listBuffer = [];
-    }
-  };
-  const esc = (s: string) => s
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;');
-  const fmtInline = (s: string) => s
-    // bold **text**
-    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
-    // italic *text*
-    .replace(/\*([^*]+)\*/g, '<em>$1</em>')
-    // links
-    .replace(/(https?:\/\/[^\s)]+)(?![^<]*>)/g, '<a href="$1" target="_blank" rel="noopener noreferrer">$1<\/a>');
-  lines.forEach(raw => {
-    const line = raw.trimRight();
-    if (!line.trim()) { flushList(); return; }
-    const h3 = /^###\s+(.+)/.exec(line);
-    if (h3) { flushList(); htmlParts.push(`<h3>${fmtInline(esc(h3[1]))}<\/h3>`); return; }
-    const h2 = /^##\s+(.+)/.exec(line);
-    if (h2) { flushList(); htmlParts.push(`<h2>${fmtInline(esc(h2[1]))}<\/h2>`); return; }
-    const h1 = /^#\s+(.+)/.exec(line);
-    if (h1) { flushList(); htmlParts.push(`<h1>${fmtInline(esc(h1[1]))}<\/h1>`); return; }
-    const li = /^[-*]\s+(.+)/.exec(line);
-    if (li) { listBuffer.push(fmtInline(esc(li[1]))); return; }
-    flushList();
-    htmlParts.push(`<p>${fmtInline(esc(line))}<\/p>`);
-  });
-  flushList();
-  return htmlParts.join('\n');
-};
-
-const htmlToPlainText = (html: string): string => {
-  if (!html) return '';
-  let text = html;
-  text = text.replace(/<\s*br\s*\/?\s*>/gi, '\n');
-  text = text.replace(/<\s*\/\s*(p|div|h[1-6]|li|ul|ol|blockquote|section|article)\s*>/gi, '\n');
-  text = text.replace(/<\s*(p|div|h[1-6]|li|ul|ol|blockquote|section|article)[^>]*>/gi, '\n');
-  text = text.replace(/<[^>]+>/g, '');
-  text = text
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, '\'');
-  text = text.split('\n').map(line => line.trimEnd()).join('\n');
-  text = text.replace(/\n{3,}/g, '\n\n');
-  return text.trim();
-};
-
-const getFunctions = (userToken?: string): ToolMap => ({
-  'find_content': async (args: FunctionArgs): Promise<FindContentResult> => {
-    if (!isFindContentArgs(args)) {
-      throw new Error('Invalid arguments for content search');
-    }
-
-    const postType = (args.type || 'all').toLowerCase();
-    const stableArgs = JSON.stringify({ query: args.query || '', type: postType });
-    const cacheKey = `find_content|${stableArgs}`;
-    const now = Date.now();
-    const cached = toolResultCache.get(cacheKey);
-    if (cached && cached.expiryMs > now) {
-      return cached.payload as FindContentResult;
-    }
-
-    const url = new URL(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000'}/api/v1/posts`);
-    url.searchParams.append('type', postType);
-    url.searchParams.append('q[title_cont]', args.query);
-
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.POST_TOKEN || ''}`,
-        ...(userToken ? { 'token': userToken } : {})
-      }
-    });
-
-    const payload = await response.json().catch(() => ({} as { message?: string; content?: unknown }));
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} - ${payload?.message || response.statusText}`);
-    }
-
-    const content = payload?.content;
-    let source: NeedpediaPost[] = [];
-    if (Array.isArray(content)) {
-      source = normalizePostArray(content);
-    } else if (isRecord(content)) {
-      const bucket = content as NeedpediaContentBuckets;
-      if (postType === 'problem' || postType === 'problems') {
-        source = normalizePostArray(bucket.problems);
-      } else if (postType === 'idea' || postType === 'ideas') {
-        source = normalizePostArray(bucket.ideas);
-      } else {
-        source = normalizePostArray(bucket.subjects);
-      }
-
-      if (source.length === 0) {
-        const fallbackArray = Object.values(bucket).find(Array.isArray);
-        source = normalizePostArray(fallbackArray);
-      }
-    }
-
-    const items = source.map((item): FindContentResult['items'][number] => ({
-      title: item.title || 'Untitled',
-      type: item.post_type || postType,
-      id: item.id !== undefined ? String(item.id) : undefined,
-      link: item.link || item.url || item.post_url || undefined
-    }));
-
-    const result: FindContentResult = { items };
-    toolResultCache.set(cacheKey, { expiryMs: now + TOOL_CACHE_TTL_MS, payload: result });
-    return result;
-  },
-  'create_content': async (args: FunctionArgs): Promise<CreateContentResult> => {
-    if (!isCreateContentArgs(args)) {
-      throw new Error('Invalid arguments for content creation');
-    }
-
-    const htmlBody = toRichHtml(args.description || '');
-    const plainText = htmlToPlainText(htmlBody);
-    const previewPayload = {
-      title: args.title,
-      content_type: args.content_type,
-      description: args.description,
-      html: htmlBody,
-      plain_text: plainText,
-      parent_id: args.parent_id
-    };
-
-    if (!args.confirm) {
-      return {
-        requires_confirmation: true,
-        preview: previewPayload,
-        instructions: 'Please confirm this post before creation by calling create_content again with "confirm": true.'
-      };
-    }
-
-    const postData: CreatePostPayload = {
-      post: {
-        title: args.title || '',
-        post_type: args.content_type || '',
-        content: {
-          body: htmlBody
-        }
-      }
-    };
-
-    if (args.content_type === 'problem' && args.parent_id) {
-      postData.post.subject_id = args.parent_id;
-    } else if (args.content_type === 'idea' && args.parent_id) {
-      postData.post.problem_id = args.parent_id;
-    }
-
-    const apiUrl = `${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000'}/api/v1/posts`;
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.POST_TOKEN || ''}`,
-        ...(userToken ? { 'token': userToken } : {})
-      },
-      body: JSON.stringify(postData)
-    });
-
-    const payload = await response.json().catch(() => ({} as { message?: string; content?: { post?: CreateContentResult['post'] } }));
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} - ${payload?.message || response.statusText}`);
-    }
-
-    return {
-      post: payload.content?.post
-    };
-  },
-  'edit_content': async (args: FunctionArgs): Promise<EditContentResult> => {
-    if (!isEditContentArgs(args)) {
-      throw new Error('Invalid arguments for content editing');
-    }
-
-    const { content_id, changes } = args;
-    const { title, description } = changes;
-    const html = description ? toRichHtml(description) : undefined;
-    const plainText = html ? htmlToPlainText(html) : undefined;
-    const previewPayload = {
-      content_id,
-      title,
-      description,
-      html,
-      plain_text: plainText
-    };
-
-    if (!args.confirm) {
-      return {
-        requires_confirmation: true,
-        preview: previewPayload,
-        instructions: 'Please confirm this edit by calling edit_content again with "confirm": true.'
-      };
-    }
-
-    const postData: UpdatePostPayload = {
-      post: {}
-    };
-
-    if (title) postData.post.title = title;
-    if (description && html) {
-      postData.post.content = { body: html };
-      postData.post.content_attributes = { body: html };
-    }
-
-    const apiUrl = `${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000'}/posts/${content_id}/api_update`;
-    const response = await fetch(apiUrl, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${process.env.POST_TOKEN || ''}`,
-        ...(userToken ? { 'token': userToken } : {})
-      },
-      body: JSON.stringify(postData)
-    });
-
-    const payload = await response.json().catch(() => ({} as { message?: string; content?: { post?: EditContentResult['post'] } }));
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} - ${payload?.message || response.statusText}`);
-    }
-
-    return {
-      post: payload.content?.post
-    };
-  }
-});
-
 const replacePlaceholderLinksWithToolUrls = (text: string, toolResults: ExecutedToolResult[]): string => {
   if (!text) return text;
   const links = toolResults
@@ -454,178 +60,251 @@ const replacePlaceholderLinksWithToolUrls = (text: string, toolResults: Executed
   });
 };
 
-// Define available tools
-const availableTools = [
-  {
-    type: 'function',
-    function: {
-      name: 'find_content',
-      description: 'Search for content by type and query',
-      parameters: {
-        type: 'object',
-        properties: {
-          query: {
-            type: 'string',
-            description: 'The search query for finding content',
-          },
-          type: {
-            type: 'string',
-            description: 'The type of content to search for (subject, problem, idea, or all). Defaults to "all" if not specified.',
-          }
-        },
-        required: ['query'],
-      }
+const addUsage = (total: MessageUsage, usage?: UsageMetrics): MessageUsage => {
+  if (!usage) return total;
+  const prompt = Number(usage.prompt_tokens) || 0;
+  const completion = Number(usage.completion_tokens) || 0;
+  return {
+    promptTokens: total.promptTokens + prompt,
+    completionTokens: total.completionTokens + completion,
+    totalTokens: total.totalTokens + (extractTokenCount(usage) || prompt + completion)
+  };
+};
+
+// A message from the client as the server stores it: its own id, branch info and metadata are not trusted
+const toIncomingMessage = (message: Message, receivedAt: string): Message => {
+  const incoming: Message = { ...message, createdAt: receivedAt };
+  delete incoming.id;
+  delete incoming.branch;
+  delete incoming.metadata;
+  delete incoming.cancelled;
+  return incoming;
+};
+
+const previewText = (text: string, maxLength: number): string => {
+  if (!text) return '';
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+};
+
+type ChatEventEmitter = (event: ChatStreamEvent) => void;
+
+// The first turn of a conversation records who started it; later turns keep that owner
+const recordOwner = (id: string, userToken: string) => {
+  if (!conversationStore.getOwner(id)) conversationStore.setOwner(id, ownerOf(userToken));
+};
+
+// Where a turn lands in the conversation tree
+interface TurnBranch {
+  // Messages on the active branch the turn builds on
+  base: Message[];
+  // Node the turn's messages are attached under; undefined continues the active branch
+  parentId?: string | null;
+}
+
+// Continue the active branch, fork it at an edited user message, or add another reply to the latest user message
+const resolveTurnBranch = (
+  id: string,
+  messages: Message[],
+  options: { regenerate?: boolean; editMessageId?: string }
+): TurnBranch => {
+  const branch = conversationStore.get(id) || [];
+
+  if (options.editMessageId) {
+    const index = branch.findIndex(m => m.id === options.editMessageId);
+    if (index < 0 || branch[index].role !== 'user') {
+      throw new ConversationTreeError('Only user messages on the current branch can be edited');
     }
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'create_content',
-      description: 'Create new content (subject, problem, or idea)',
-      parameters: {
-        type: 'object',
-        properties: {
-          title: {
-            type: 'string',
-            description: 'The title of the content',
-          },
-          description: {
-            type: 'string',
-            description: 'The description/body of the content',
-          },
-          content_type: {
-            type: 'string',
-            description: 'The type of content: subject, problem, or idea',
-          },
-          parent_id: {
-            type: 'string',
-            description: 'The parent ID (subject_id for problems, problem_id for ideas)',
-          },
-          confirm: {
-            type: 'boolean',
-            description: 'Set to true only after the user reviews the preview and approves creation.'
-          }
-        },
-        required: ['title', 'description', 'content_type'],
-      }
+    if (!messages.some(m => m.role === 'user' && m.content.trim())) {
+      throw new ConversationTreeError('The edited message is empty');
     }
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'edit_content',
-      description: 'Edit existing content',
-      parameters: {
-        type: 'object',
-        properties: {
-          content_id: {
-            type: 'string',
-            description: 'The ID of the content to edit',
-          },
-          changes: {
-            type: 'object',
-            properties: {
-              title: {
-                type: 'string',
-                description: 'New title for the content',
-              },
-              description: {
-                type: 'string',
-                description: 'New description for the content',
-              }
-            },
-            description: 'The changes to apply to the content',
-          },
-          confirm: {
-            type: 'boolean',
-            description: 'Set to true only after the user reviews the edit preview and approves updating.'
-          }
-        },
-        required: ['content_id', 'changes'],
-      }
+    return { base: branch.slice(0, index), parentId: conversationStore.getTree(id)?.get(options.editMessageId)?.parentId ?? null };
+  }
+
+  if (options.regenerate) {
+    const index = branch.map(m => m.role).lastIndexOf('user');
+    if (index < 0) {
+      throw new ConversationTreeError('There is no reply to regenerate');
     }
+    return { base: branch.slice(0, index + 1), parentId: branch[index].id };
   }
-];
 
-export async function POST(req: Request) {
+  return { base: branch };
+};
+
+interface ChatTurnResult {
+  conversationId: string;
+  choices: Array<{ message: Message }>;
+  usedTokens: number;
+  // The model that produced the final assistant message, after any failover
+  model: string;
+  // Previews issued so far that still await the user's decision
+  pendingActions: PendingAction[];
+  // The user's token balance after this turn, null when the backend did not report one
+  balance: TokenBalance | null;
+  // The active branch after this turn, system messages left out
+  messages: Message[];
+  // The conversation's title so far; a new one is generated after the turn has answered
+  title?: string;
+}
+
+interface ChatTurn {
+  result: ChatTurnResult;
+  // Generate or refresh the conversation title from the turn; resolves with the title to show
+  refreshTitle: () => Promise<string | undefined>;
+}
+
+// Run one user turn: model rounds, tool execution, persistence and token accounting
+const runChatTurn = async (
+  id: string,
+  messages: Message[],
+  userToken: string,
+  turnBranch: TurnBranch,
+  emit?: ChatEventEmitter,
+  signal?: AbortSignal
+): Promise<ChatTurn> => {
+  const existingHistory = turnBranch.base;
+  const storedSystem = existingHistory.filter(m => m.role === 'system');
+  const systemMessages: Message[] = storedSystem.length > 0
+    ? storedSystem
+    : [{ role: 'system', content: SYSTEM_PROMPT }];
+  const history = [...existingHistory.filter(m => m.role !== 'system'), ...messages];
+  // Idempotency key for this turn's token charge and backend thread records
+  const turnId = randomUUID();
+  const startedAt = Date.now();
+
+  // Refuse before spending anything when the user's quota is exhausted
+  const balance = await assertTokensAvailable(userToken);
+
+  const provider = getChatProvider();
+  // Fails over along LLM_MODELS on rate limits and upstream errors, round by round
+  const router = new ModelRouter(provider, loadModelChain(provider.defaultModel));
+
+  // Track total tokens used across one logical response
+  let usedTokens = 0;
+  // Usage is charged once however the turn ends; a turn that fails after model calls still made them
+  let charged = false;
+  const chargeUsage = (): TokenBalance | undefined => {
+    charged = true;
+    return recordTokenUsage(userToken, usedTokens, turnId);
+  };
+  let answeredModel = provider.defaultModel;
+  // Model rounds and tool calls behind the reply, stored with it as metadata
+  let replyUsage: MessageUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const toolTrace: ToolCallSummary[] = [];
+  const replyMetadata = (): MessageMetadata => ({
+    model: answeredModel,
+    usage: replyUsage,
+    latencyMs: Date.now() - startedAt,
+    ...(toolTrace.length > 0 ? { tools: toolTrace } : {})
+  });
+
   try {
-    const {
-      messages = [],
-      conversationId,
-      userToken
-    } = await req.json() as {
-      messages?: Message[];
-      conversationId?: string;
-      userToken?: string;
+    // Text of the current model round that has reached the client, kept if the user stops the turn
+    let streamedText = '';
+    const completionOptions = {
+      signal,
+      ...(emit ? {
+        onDelta: (content: string) => {
+          streamedText += content;
+          emit({ type: 'delta', content });
+        }
+      } : {})
     };
 
-    const id: string = conversationId || randomUUID();
+    // Record the stopped turn so history shows where it ended, charge what was used and stop
+    const cancelTurn = (): never => {
+      const partial = streamedText.trim();
+      const cancelledMessage: Message = {
+        role: 'assistant',
+        content: partial ? `${partial}\n\n${CANCELLED_NOTE}` : CANCELLED_NOTE,
+        cancelled: true,
+        createdAt: new Date().toISOString(),
+        metadata: replyMetadata()
+      };
+      recordOwner(id, userToken);
+      const stored = conversationStore
+        .append(id, [...messages, cancelledMessage], MAX_STORED_MESSAGES, turnBranch.parentId)
+        .slice(-(messages.length + 1));
+      enqueueConversationSnapshot(id).catch(() => {});
+      enqueueThreadRecord(
+        id,
+        userToken,
+        turnId,
+        stored.map(m => toThreadMessage(m, m.role === 'assistant' ? { cancelled: true } : {}))
+      ).catch((error: unknown) => console.warn('Chat: failed to queue thread history', error));
+      if (usedTokens > 0) chargeUsage();
+      throw new TurnCancelledError();
+    };
 
-    // Require user token before proceeding
-    if (!userToken) {
-      return NextResponse.json(
-        { error: 'Unauthenticated: missing user token' },
-        { status: 401 }
-      );
+    // Keep the newest turns that fit the token budget and fold the rest into the rolling summary
+    const storedSummary = conversationStore.getSummary(id);
+    let summary = summaryForBranch(storedSummary, history, conversationStore.getTree(id));
+    // Forget what another branch left before trimming the tree could make it pass for this branch's past
+    if (summary !== storedSummary) conversationStore.setSummary(id, summary);
+    const budget = CONTEXT_TOKEN_BUDGET - estimateMessagesTokens(systemMessages) - estimateSummaryTokens(summary);
+    const plan = planContext(history, summary, budget, MAX_CONTEXT_MESSAGES);
+    if (plan.toSummarize.length > 0) {
+      const update = await summarizeMessages(router, summary, plan.toSummarize, signal).catch((error: unknown) => {
+        if (isAbortError(error, signal)) cancelTurn();
+        throw error;
+      });
+      summary = update.summary;
+      usedTokens += extractTokenCount(update.usage);
+      conversationStore.setSummary(id, summary);
     }
-
-    const existingHistory = conversationStore.get(id) || [];
-    const hasSystem = existingHistory.some(m => m.role === 'system');
-
-    const baseHistory: Message[] = hasSystem
-      ? existingHistory
-      : [{ role: 'system', content: SYSTEM_PROMPT }, ...existingHistory];
-
-    // Reduce context size to speed up prompt and model latency
-    const requestMessages: Message[] = (() => {
-      const joined = [...baseHistory, ...messages];
-      if (joined.length <= MAX_CONTEXT_MESSAGES) return joined;
-      // Always keep system prompt at the start and trim the middle
-      const system = joined[0]?.role === 'system' ? [joined[0]] : [];
-      const tail = joined.slice(-Math.max(1, MAX_CONTEXT_MESSAGES - system.length));
-      return [...system, ...tail];
-    })();
-
-    if (!process.env.OPENROUTER_API_KEY) {
-      throw new Error('OpenRouter API key is not configured');
+    const summaryMessage = summary ? buildSummaryMessage(summary) : undefined;
+    const requestMessages: Message[] = [
+      ...systemMessages,
+      ...(summaryMessage ? [summaryMessage] : []),
+      ...plan.kept,
+    ];
+
+    // A plain "yes" after a preview approves the ticket of the preview shown last, unless that preview is
+    // blocked (likely duplicates); older previews need their card. Only a message sent with this turn
+    // counts: a regenerated reply must not take an earlier "yes" as approval of a preview shown since.
+    const latestUserMessage = [...messages].reverse().find(m => m.role === 'user');
+    if (latestUserMessage && isApprovalMessage(latestUserMessage.content)) {
+      const ticket = confirmationTickets.latestPending(id, userToken);
+      if (ticket) confirmationTickets.approve(ticket.id, latestUserMessage.content);
+    }
+    const approvedTickets = confirmationTickets.approved(id, userToken);
+    if (approvedTickets.length > 0) {
+      requestMessages.push({ role: 'system', content: describeApprovedTickets(approvedTickets) });
     }
 
-    // Use the model from environment variable, fallback to default
-    const model = process.env.OPENROUTER_MODEL || 'mistralai/mistral-7b-instruct:free';
-    
-    // Track total tokens used across one logical response
-    let usedTokens = 0;
+    const complete = async (conversation: Message[], toolChoice: 'auto' | 'none') => {
+      if (signal?.aborted) cancelTurn();
+      streamedText = '';
+      // The prompt is charged too, so a round may only generate what is left of the balance after it
+      const left = balance ? balance.remaining - usedTokens - estimateMessagesTokens(conversation) : undefined;
+      if (balance && left !== undefined && left <= 0) {
+        chargeUsage();
+        throw new QuotaExceededError({ ...balance, remaining: 0 });
+      }
+      try {
+        const result = await router.complete(
+          { messages: conversation, tools: getToolDefinitions(), toolChoice, maxTokens: left },
+          completionOptions
+        );
+        answeredModel = result.model;
+        replyUsage = addUsage(replyUsage, result.usage);
+        return result;
+      } catch (error: unknown) {
+        if (isAbortError(error, signal)) cancelTurn();
+        throw error;
+      }
+    };
 
     // First API call
-    const response = await openRouterClient.post('/chat/completions', {
-      model: model,
-      messages: requestMessages,
-      tools: availableTools,
-      tool_choice: 'auto',
-      extra_headers: {
-        'HTTP-Referer': process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000',
-        'X-Title': 'AI Chat Assistant',
-      },
-      extra_body: {},
-    });
+    const response = await complete(requestMessages, 'auto');
+    usedTokens += extractTokenCount(response.usage);
 
-    // Capture usage from first call if present
-    try {
-      const usage = (response.data as UsageEnvelope)?.usage;
-      usedTokens += extractTokenCount(usage);
-    } catch {
-      // Ignore usage parsing errors
-    }
-
-    if (!response.data?.choices?.[0]?.message) {
-      throw new Error('Invalid response from OpenRouter API');
-    }
-
-    let assistantMessage: Message = response.data.choices[0].message;
+    let assistantMessage: Message = response.message;
 
     // Handle tool calls iteratively to allow multiple rounds until the model finishes
-    const funcs = getFunctions(userToken);
     const executedToolResults: ExecutedToolResult[] = [];
+    // Each round's assistant tool_calls message and its tool results stay in context for later rounds
+    let turnMessages: Message[] = requestMessages;
     let safetyCounter = 0; // prevent infinite loops
     while (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0 && safetyCounter < 5) {
       safetyCounter++;
@@ -637,103 +316,61 @@ export async function POST(req: Request) {
       for (let i = 0; i < toolCalls.length; i++) {
         const toolCall = toolCalls[i];
         const { name, arguments: argsString } = toolCall.function;
+        const roundKey = `${name}|${(argsString || '{}').trim()}`;
 
-        const args = JSON.parse(argsString || '{}') as FunctionArgs;
-        const stableArgs = JSON.stringify(args);
-        const roundKey = `${name}|${stableArgs}`;
-
-        try {
-          if (roundMemo.has(roundKey)) {
-            const cached = roundMemo.get(roundKey)!;
-            toolResults.push({
-              tool_call_id: toolCall.id,
-              role: 'tool',
-              name: cached.name,
-              content: cached.content
-            });
-          } else {
-            const toolFunction = funcs[name as keyof typeof funcs];
-            if (!toolFunction) {
-              const unsupportedPayload = JSON.stringify({ error: `Unsupported tool: ${name}` });
-              toolResults.push({
-                tool_call_id: toolCall.id,
-                role: 'tool',
-                name,
-                content: unsupportedPayload
-              });
-              continue;
-            }
-
-            const result = await toolFunction(args);
-            executedToolResults.push({ name: name as keyof ToolMap, result });
-
-            const payload = JSON.stringify(result);
-            roundMemo.set(roundKey, { name, content: payload });
-            toolResults.push({
-              tool_call_id: toolCall.id,
-              role: 'tool',
-              name,
-              content: payload
-            });
-          }
-        } catch (error: unknown) {
+        if (signal?.aborted) cancelTurn();
+        emit?.({ type: 'tool_start', id: toolCall.id, name });
+        const cached = roundMemo.get(roundKey);
+        if (cached) {
+          toolTrace.push({ name, arguments: argsString, ok: true, durationMs: 0, cached: true });
           toolResults.push({
             tool_call_id: toolCall.id,
             role: 'tool',
-            name,
-            content: JSON.stringify({ error: getErrorMessage(error) })
+            name: cached.name,
+            content: cached.content
           });
+          emit?.({ type: 'tool_end', id: toolCall.id, name, ok: true });
+          continue;
         }
+
+        const toolStartedAt = Date.now();
+        const execution = await executeToolCall(name, argsString, { conversationId: id, userToken, signal });
+        toolTrace.push({ name, arguments: argsString, ok: execution.ok, durationMs: Date.now() - toolStartedAt });
+        if (signal?.aborted) cancelTurn();
+        if (execution.ok) {
+          executedToolResults.push({ name, result: execution.result });
+        }
+
+        const payload = JSON.stringify(execution.result);
+        roundMemo.set(roundKey, { name, content: payload });
+        toolResults.push({
+          tool_call_id: toolCall.id,
+          role: 'tool',
+          name,
+          content: payload
+        });
+        emit?.({ type: 'tool_end', id: toolCall.id, name, ok: execution.ok });
       }
 
-      const updatedMessages = [...requestMessages, assistantMessage, ...toolResults];
-      const followupResponse = await openRouterClient.post('/chat/completions', {
-        model,
-        messages: updatedMessages,
-        tools: availableTools,
-        tool_choice: 'auto',
-        extra_headers: {
-          'HTTP-Referer': process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000',
-          'X-Title': 'AI Chat Assistant',
-        },
-        extra_body: {},
-      });
-      assistantMessage = followupResponse.data.choices[0].message;
+      turnMessages = [...turnMessages, assistantMessage, ...toolResults];
+      const followupResponse = await complete(turnMessages, 'auto');
+      assistantMessage = followupResponse.message;
 
       // Capture usage from follow-up call(s)
-      try {
-        const usage = (followupResponse.data as UsageEnvelope)?.usage;
-        usedTokens += extractTokenCount(usage);
-      } catch {
-        // Ignore usage parsing errors
-      }
-      
+      usedTokens += extractTokenCount(followupResponse.usage);
+
       // If the assistant message has no content and no more tool_calls, request a text response
       if (!assistantMessage.content && (!assistantMessage.tool_calls || assistantMessage.tool_calls.length === 0)) {
-        const finalResponse = await openRouterClient.post('/chat/completions', {
-          model,
-          messages: updatedMessages,
-          tools: availableTools,
-          tool_choice: 'none', // Force text response
-          extra_headers: {
-            'HTTP-Referer': process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000',
-            'X-Title': 'AI Chat Assistant',
-          },
-          extra_body: {},
-        });
-        assistantMessage = finalResponse.data.choices[0].message;
-        
+        // Force text response
+        const finalResponse = await complete(turnMessages, 'none');
+        assistantMessage = finalResponse.message;
+
         // Capture usage from final call
-        try {
-          const usage = (finalResponse.data as UsageEnvelope)?.usage;
-          usedTokens += extractTokenCount(usage);
-        } catch {
-          // Ignore usage parsing errors
-        }
+        usedTokens += extractTokenCount(finalResponse.usage);
         break; // Exit the loop after forcing a text response
       }
     }
-    
+
     // Ensure assistant message has content - if still empty after all processing, provide a fallback
     if (!assistantMessage.content || assistantMessage.content.trim() === '') {
       assistantMessage = {
@@ -746,7 +383,9 @@ export async function POST(req: Request) {
 
     assistantMessage = {
       ...assistantMessage,
-      content: replacePlaceholderLinksWithToolUrls(assistantMessage.content, executedToolResults)
+      content: replacePlaceholderLinksWithToolUrls(assistantMessage.content, executedToolResults),
+      createdAt: new Date().toISOString(),
+      metadata: replyMetadata()
     };
 
     // Persist conversation: append incoming user messages and assistant response
@@ -754,43 +393,197 @@ export async function POST(req: Request) {
     if (assistantMessage) {
       toAppend.push(assistantMessage);
     }
-    const persistedHistory = conversationStore.append(id, toAppend, MAX_STORED_MESSAGES);
-    saveConversationToDisk(id, persistedHistory).catch(() => {});
+    recordOwner(id, userToken);
+    const activeBranch = conversationStore.append(id, toAppend, MAX_STORED_MESSAGES, turnBranch.parentId);
+    // The turn's messages as stored, now carrying their ids
+    const storedTurn = activeBranch.slice(-toAppend.length);
+    assistantMessage = storedTurn[storedTurn.length - 1];
+    // Tool calls are not stored, so the posts this turn selected or published are recorded as summary facts
+    const turnFacts = collectFacts([...turnMessages.slice(requestMessages.length), assistantMessage])
+      .map(fact => ({ ...fact, sourceId: assistantMessage.id }));
+    if (turnFacts.length > 0) {
+      const current = summary ?? emptySummary();
+      summary = { ...current, facts: mergeFacts(current.facts, turnFacts), updatedAt: new Date().toISOString() };
+      conversationStore.setSummary(id, summary);
+    }
+    // Local snapshot and backend thread history are delivered (and retried) by the outbox
+    enqueueConversationSnapshot(id).catch(() => {});
+    const latestUserContent = latestUserMessage?.content || '';
+    enqueueThreadRecord(
+      id,
+      userToken,
+      turnId,
+      storedTurn
+        .filter(m => m.role === 'user' || m === assistantMessage)
+        .map(m => toThreadMessage(m, m === assistantMessage ? { raw: assistantMessage } : {})),
+      // A title the user chose from the sidebar, then the generated one, are kept over the latest question
+      {
+        title: conversationStore.getSettings(id)?.title || conversationStore.getTitle(id)?.text || previewText(latestUserContent, 80),
+        lastMessage: previewText(assistantMessage.content, 160)
+      }
+    ).catch((error: unknown) => console.warn('Chat: failed to queue thread history', error));
+
+    // Deduct from the cached balance now; the backend charge goes through the outbox
+    const remainingBalance = chargeUsage();
+    const title = conversationStore.getSettings(id)?.title || conversationStore.getTitle(id)?.text;
 
-    // Best-effort token decrement after successful completion
-    (async () => {
+    return {
+      result: {
+        conversationId: id,
+        choices: [{
+          message: assistantMessage
+        }],
+        usedTokens: Math.max(0, usedTokens),
+        model: answeredModel,
+        pendingActions: listPendingActions(id, userToken),
+        balance: remainingBalance ?? null,
+        messages: activeBranch.filter(m => m.role !== 'system'),
+        ...(title ? { title } : {})
+      },
+      refreshTitle: () => refreshConversationTitle(id, userToken, turnId, activeBranch)
+    };
+  } catch (error: unknown) {
+    if (!charged && usedTokens > 0) chargeUsage();
+    throw error;
+  }
+};
+
+const describeError = (error: unknown): { error: string; status: number; code?: string } => {
+  if (error instanceof TurnCancelledError) {
+    // 499: the client closed the request
+    return { error: error.message, status: 499, code: 'cancelled' };
+  }
+  if (
+    error instanceof QuotaExceededError ||
+    error instanceof ConversationTreeError ||
+    error instanceof ConversationIdError ||
+    error instanceof ConversationNotFoundError
+  ) {
+    return { error: error.message, status: error.status, code: error.code };
+  }
+  if (error instanceof ModelChainExhaustedError) {
+    return { error: error.message, status: error.status };
+  }
+  const axiosError = axios.isAxiosError(error) ? error : undefined;
+  const responseData = axiosError?.response?.data as ErrorPayload | undefined;
+  return {
+    error: typeof responseData?.error === 'string'
+      ? responseData.error
+      : responseData?.error?.message || getErrorMessage(error),
+    status: axiosError?.response?.status || 500
+  };
+};
+
+// Stream turn progress as Server-Sent Events; the final `done` event carries the usual JSON body
+const streamChatTurn = (
+  id: string,
+  messages: Message[],
+  userToken: string,
+  turnBranch: TurnBranch,
+  requestSignal: AbortSignal
+): Response => {
+  // Either the request being aborted or the reader cancelling the stream stops the turn
+  const abort = new AbortController();
+  const onRequestAbort = () => abort.abort();
+  requestSignal.addEventListener('abort', onRequestAbort, { once: true });
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: ChatEventEmitter = (event) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encodeSseEvent(event));
+      };
       try {
-        const decUrl = `${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000'}/api/v1/tokens/decrease`;
-        await fetch(decUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${process.env.POST_TOKEN || ''}`
-          },
-          body: JSON.stringify({ utoken: userToken, decrement_by: Math.max(1, usedTokens || 0) })
-        });
-      } catch {
-        // Ignored
+        emit({ type: 'start', conversationId: id });
+        const { result, refreshTitle } = await trackTurn(id, ownerOf(userToken), runChatTurn(id, messages, userToken, turnBranch, emit, abort.signal));
+        emit({ type: 'done', ...result });
+        // The title follows the answer, so a slow title model never holds it up
+        const title = await refreshTitle();
+        if (title && title !== result.title) emit({ type: 'title', conversationId: id, title });
+      } catch (error: unknown) {
+        emit({ type: 'error', ...describeError(error) });
+      } finally {
+        requestSignal.removeEventListener('abort', onRequestAbort);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the reader
+        }
       }
-    })();
-
-    return NextResponse.json({
-      conversationId: id,
-      choices: [{
-        message: assistantMessage
-      }],
-      usedTokens: Math.max(0, usedTokens)
-    });
+    },
+    cancel() {
+      abort.abort();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+};
+
+export async function POST(req: Request) {
+  // Known once the request is read; a stopped turn's 499 carries it so a new conversation keeps its id
+  let turnConversationId: string | undefined;
+  try {
+    const {
+      messages = [],
+      conversationId,
+      userToken,
+      stream = false,
+      regenerate = false,
+      editMessageId
+    } = await req.json() as {
+      messages?: Message[];
+      conversationId?: string;
+      userToken?: string;
+      stream?: boolean;
+      // Replace the latest assistant reply with a new one, keeping the old reply as a sibling branch
+      regenerate?: boolean;
+      // Send `messages` as a new version of this earlier user message, forking the conversation there
+      editMessageId?: string;
+    };
+
+    // Require user token before proceeding
+    if (!userToken) {
+      return NextResponse.json(
+        { error: 'Unauthenticated: missing user token' },
+        { status: 401 }
+      );
+    }
+
+    const id: string = conversationId ? assertConversationId(conversationId) : randomUUID();
+    turnConversationId = id;
+
+    // Only the user's own conversations can be continued; this also reads one that is not cached
+    if (conversationId) await openConversation(id, userToken);
+
+    // Regenerating reuses the latest user message instead of sending a new one
+    const receivedAt = new Date().toISOString();
+    const turnMessages = (regenerate && !editMessageId ? [] : messages).map(m => toIncomingMessage(m, receivedAt));
+    const turnBranch = resolveTurnBranch(id, turnMessages, { regenerate, editMessageId });
+
+    if (stream) {
+      return streamChatTurn(id, turnMessages, userToken, turnBranch, req.signal);
+    }
+
+    const { result, refreshTitle } = await trackTurn(id, ownerOf(userToken), runChatTurn(id, turnMessages, userToken, turnBranch, undefined, req.signal));
+    // Saved for the sidebar once ready; this response does not wait for it
+    void refreshTitle();
+    return NextResponse.json(result);
   } catch (error: unknown) {
-    const axiosError = axios.isAxiosError(error) ? error : undefined;
-    const responseData = axiosError?.response?.data as ErrorPayload | undefined;
+    const { error: message, status, code } = describeError(error);
     return NextResponse.json(
-      { 
-        error: typeof responseData?.error === 'string' 
-          ? responseData.error 
-          : responseData?.error?.message || getErrorMessage(error)
+      {
+        error: message,
+        ...(code ? { code } : {}),
+        ...(error instanceof TurnCancelledError && turnConversationId ? { conversationId: turnConversationId } : {})
       },
-      { status: axiosError?.response?.status || 500 }
+      { status }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { listUserThreadIds, openConversation, ownerOf } from '@/utils/conversationAccess';
+import { conversationSearchIndex, toSearchTerms } from '@/utils/conversationSearch';
+import { deletedThreadIds } from '@/utils/chatThreads';
+import { isConversationId } from '@/utils/conversationId';
+
+const MAX_QUERY_LENGTH = 200;
+// Conversations searched per request, most recent first as the sidebar lists them
+const MAX_CONVERSATIONS = 200;
+// Conversations loaded from the conversation store or the backend at the same time
+const LOAD_CONCURRENCY = 4;
+
+// Search the contents of the user's conversations: the ones the sidebar knows about and the
+// threads the backend keeps for the user, skipping IDs that are not the user's. Each result points
+// at the best-matching message. Conversations come from the user's search index; only the ones it
+// does not hold yet (the first search, threads started elsewhere) are read.
+export async function POST(req: Request) {
+  try {
+    const { userToken, query, conversationIds } = await req.json() as {
+      userToken?: string;
+      query?: string;
+      // Conversations listed in the sidebar, most recent first
+      conversationIds?: unknown;
+    };
+
+    if (!userToken) {
+      return NextResponse.json({ error: 'Unauthenticated: missing user token' }, { status: 401 });
+    }
+    if (typeof query !== 'string' || toSearchTerms(query).length === 0) {
+      return NextResponse.json({ error: 'A search query is required' }, { status: 400 });
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({ error: `Search queries are limited to ${MAX_QUERY_LENGTH} characters` }, { status: 400 });
+    }
+
+    const knownIds = Array.isArray(conversationIds)
+      ? conversationIds.filter(isConversationId)
+      : [];
+    const deleted = await deletedThreadIds();
+    const ids = Array.from(new Set([...knownIds, ...(await listUserThreadIds(userToken))]))
+      .filter(id => !deleted.has(id))
+      .slice(0, MAX_CONVERSATIONS);
+
+    const owner = ownerOf(userToken);
+    const unindexed = ids.filter(id => !conversationSearchIndex.covers(owner, id));
+    for (let i = 0; i < unindexed.length; i += LOAD_CONCURRENCY) {
+      const batch = unindexed.slice(i, i + LOAD_CONCURRENCY);
+      const loaded = await Promise.all(batch.map(id => openConversation(id, userToken).catch(() => undefined)));
+      loaded.forEach((messages, j) => {
+        if (messages) conversationSearchIndex.add(owner, batch[j], messages);
+        else conversationSearchIndex.markUnavailable(owner, batch[j]);
+      });
+    }
+
+    const { results, searched } = conversationSearchIndex.search(owner, ids, query);
+    return NextResponse.json({ query, results, searched });
+  } catch (error: unknown) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'The request body is not valid JSON' }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to search conversations';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { deleteChatThread } from '@/utils/chatThreads';
+import { ConversationIdError, assertConversationId } from '@/utils/conversationId';
+import { ConversationNotFoundError } from '@/utils/conversationAccess';
+
+// Delete a conversation here and, through the outbox, on the backend
+export async function POST(req: Request) {
+  try {
+    const { conversationId, userToken } = await req.json() as {
+      conversationId?: string;
+      userToken?: string;
+    };
+
+    if (!userToken) {
+      return NextResponse.json({ error: 'Unauthenticated: missing user token' }, { status: 401 });
+    }
+    if (!conversationId) {
+      return NextResponse.json({ error: 'Conversation ID is required' }, { status: 400 });
+    }
+
+    assertConversationId(conversationId);
+
+    await deleteChatThread(conversationId, userToken);
+    return NextResponse.json({ conversationId, deleted: true });
+  } catch (error: unknown) {
+    if (error instanceof ConversationIdError || error instanceof ConversationNotFoundError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'The request body is not valid JSON' }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to delete the conversation';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
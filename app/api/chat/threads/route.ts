@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { listChatThreads } from '@/utils/chatThreads';
+import { isConversationId } from '@/utils/conversationId';
+
+// The user's conversations for the sidebar, with title, last message and pin/archive state,
+// pinned first and then most recently active
+export async function POST(req: Request) {
+  try {
+    const { userToken, conversationIds } = await req.json() as {
+      userToken?: string;
+      // Conversations this browser started that the backend may not list yet
+      conversationIds?: unknown;
+    };
+
+    if (!userToken) {
+      return NextResponse.json({ error: 'Unauthenticated: missing user token' }, { status: 401 });
+    }
+
+    const knownIds = Array.isArray(conversationIds)
+      ? conversationIds.filter(isConversationId)
+      : [];
+    return NextResponse.json({ threads: await listChatThreads(userToken, knownIds) });
+  } catch (error: unknown) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'The request body is not valid JSON' }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to list conversations';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
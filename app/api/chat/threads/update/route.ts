@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { ChatThreadChanges, ChatThreadError, updateChatThread } from '@/utils/chatThreads';
+import { ConversationIdError, assertConversationId } from '@/utils/conversationId';
+import { ConversationNotFoundError } from '@/utils/conversationAccess';
+
+// Rename, pin or archive a conversation; the backend thread is updated through the outbox
+export async function POST(req: Request) {
+  try {
+    const { conversationId, userToken, title, pinned, archived } = await req.json() as {
+      conversationId?: string;
+      userToken?: string;
+    } & ChatThreadChanges;
+
+    if (!userToken) {
+      return NextResponse.json({ error: 'Unauthenticated: missing user token' }, { status: 401 });
+    }
+    if (!conversationId) {
+      return NextResponse.json({ error: 'Conversation ID is required' }, { status: 400 });
+    }
+
+    assertConversationId(conversationId);
+
+    const thread = await updateChatThread(conversationId, userToken, { title, pinned, archived });
+    return NextResponse.json({ thread });
+  } catch (error: unknown) {
+    if (error instanceof ChatThreadError || error instanceof ConversationIdError || error instanceof ConversationNotFoundError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'The request body is not valid JSON' }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : 'Failed to update the conversation';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { OutboxStatus, outbox } from '@/utils/outbox';
+
+const STATUSES: OutboxStatus[] = ['pending', 'delivered', 'dead'];
+
+// Operators authenticate with the server's POST_TOKEN; without one the route is closed
+const isAuthorized = (req: Request): boolean => {
+  const expected = process.env.POST_TOKEN;
+  if (!expected) return false;
+  const given = Buffer.from(req.headers.get('authorization') ?? '');
+  const wanted = Buffer.from(`Bearer ${expected}`);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+};
+
+// Inspect queued backend side effects (token charges, thread history, local snapshots)
+export async function GET(req: Request) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const status = new URL(req.url).searchParams.get('status') as OutboxStatus | null;
+  if (status && !STATUSES.includes(status)) {
+    return NextResponse.json({ error: `status must be one of: ${STATUSES.join(', ')}` }, { status: 400 });
+  }
+
+  const entries = await outbox.list(status ?? undefined);
+  const counts = Object.fromEntries(STATUSES.map(s => [s, 0])) as Record<OutboxStatus, number>;
+  (await outbox.list()).forEach(entry => { counts[entry.status]++; });
+  return NextResponse.json({ counts, entries });
+}
+
+// Retry one entry now, e.g. a dead letter after the backend has been fixed
+export async function POST(req: Request) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { key } = await req.json() as { key?: string };
+    if (!key) {
+      return NextResponse.json({ error: 'key is required' }, { status: 400 });
+    }
+    const entry = await outbox.retry(key);
+    if (!entry) {
+      return NextResponse.json({ error: `No outbox entry with key ${key}` }, { status: 404 });
+    }
+    return NextResponse.json({ entry });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to retry the outbox entry';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
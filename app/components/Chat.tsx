@@ -1,10 +1,15 @@
 'use client';
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Message } from '@/types/chat';
+import { ChatStreamEvent, Message, MessageMetadata, PendingAction, TokenUsageEventDetail } from '@/types/chat';
+import { iterateReadableStream, readSseData } from '@/utils/sse';
+import { CANCELLED_NOTE } from '@/utils/abort';
+import PendingActionCard, { PendingActionChanges, PendingActionDecision } from './PendingActionCard';
 
 interface ChatProps {
   conversationId?: string;
+  // Scroll to and highlight this message once the conversation is shown, e.g. after picking a search result
+  focusMessage?: { id: string; requestedAt: number };
   onConversationChange?: (conversationId: string, title: string, lastMessage: string) => void;
   noBorder?: boolean;
   userId?: string | null;
@@ -246,127 +251,149 @@ const renderMessageContent = (raw: string): React.ReactNode => {
   return elements.length > 0 ? elements : applyInlineFormatting(content);
 };
 
-interface PersistedMessagePayload {
-  role: Message['role'];
-  content: string;
-  metadata?: Record<string, unknown>;
-}
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000';
+type ChatCompletionPayload = Extract<ChatStreamEvent, { type: 'done' }>;
 
-const buildPreviewText = (text: string, maxLength: number): string => {
-  if (!text) return '';
-  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+const TOOL_LABELS: Record<string, string> = {
+  find_content: 'Searching Needpedia',
+  get_content: 'Reading post',
+  list_children: 'Browsing Needpedia',
+  get_ancestors: 'Finding parent posts',
+  create_content: 'Preparing post',
+  edit_content: 'Preparing edit',
 };
 
-const persistChatThread = async (
-  threadId: string,
-  token: string,
-  title?: string,
-  lastMessage?: string
-) => {
-  if (!threadId || !token) return;
-
-  const chatThreadPayload: Record<string, string> = {
-    thread_id: threadId,
-  };
-
-  if (title) {
-    chatThreadPayload.title = title;
-  }
-
-  if (lastMessage) {
-    chatThreadPayload.last_message = lastMessage;
-  }
+const formatMessageTime = (createdAt: string): string => {
+  const date = new Date(createdAt);
+  if (Number.isNaN(date.getTime())) return '';
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })}, ${time}`;
+};
 
-  const body: Record<string, unknown> = {
-    chat_thread: chatThreadPayload,
-    thread_id: threadId,
-  };
+// One line under an assistant reply (model, tokens, time taken) plus a tooltip with the tool calls
+const describeMetadata = (metadata: MessageMetadata): { summary: string; details: string } => {
+  const parts = [
+    metadata.model,
+    metadata.usage ? `${metadata.usage.totalTokens.toLocaleString()} tokens` : undefined,
+    metadata.latencyMs !== undefined ? `${(metadata.latencyMs / 1000).toFixed(1)}s` : undefined,
+    metadata.tools?.length ? `${metadata.tools.length} tool call${metadata.tools.length === 1 ? '' : 's'}` : undefined,
+  ].filter(Boolean);
+  const details = [
+    metadata.usage ? `Prompt ${metadata.usage.promptTokens}, completion ${metadata.usage.completionTokens} tokens` : '',
+    ...(metadata.tools ?? []).map(tool => `${tool.ok ? '✓' : '✗'} ${tool.name} (${tool.cached ? 'repeated call' : `${tool.durationMs} ms`})`),
+  ].filter(Boolean);
+  return { summary: parts.join(' · '), details: details.join('\n') };
+};
 
+// The sidebar HP bar listens for this event
+const notifyTokenUsage = (detail: TokenUsageEventDetail) => {
   try {
-    await fetch(`${API_BASE_URL}/api/v1/chat_threads`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': token,
-      },
-      body: JSON.stringify(body),
-    });
-  } catch {
-    // Ignore persistence failures
-  }
+    window.dispatchEvent(new CustomEvent<TokenUsageEventDetail>('np_tokens_used', { detail }));
+  } catch {}
 };
 
-const persistChatMessages = async (
-  threadId: string,
-  token: string,
-  messages: PersistedMessagePayload[],
-  title?: string,
-  lastMessage?: string
-) => {
-  if (!threadId || !token || messages.length === 0) return;
-
-  const body: Record<string, unknown> = {
-    thread_id: threadId,
-    messages,
-  };
+// Consume the /api/chat event stream, forwarding progress events and resolving with the final payload.
+// Reading goes on after `done`: the generated title arrives in a later event.
+const readChatStream = (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<ChatCompletionPayload> => new Promise((resolve, reject) => {
+  let finished = false;
+  (async () => {
+    for await (const data of readSseData(iterateReadableStream(body))) {
+      let event: ChatStreamEvent;
+      try {
+        event = JSON.parse(data) as ChatStreamEvent;
+      } catch {
+        continue;
+      }
+      if (event.type === 'error') {
+        if (event.code === 'quota_exceeded') notifyTokenUsage({ used: 0, remaining: 0 });
+        throw new Error(event.error || 'Failed to send message');
+      }
+      if (event.type === 'done') {
+        finished = true;
+        resolve(event);
+        continue;
+      }
+      onEvent(event);
+    }
+    if (!finished) throw new Error('The response ended unexpectedly. Please try again.');
+  })().catch((error: unknown) => {
+    // Past `done` the reply is in; a lost title event only leaves the current title in place
+    if (!finished) reject(error);
+  });
+});
 
-  if (title) {
-    body.title = title;
-  }
+const buildPreviewText = (text: string, maxLength: number): string => {
+  if (!text) return '';
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+};
 
-  if (lastMessage) {
-    body.last_message = lastMessage;
-  }
+// Filter out thinking/reasoning content from all assistant messages
+const toDisplayMessages = (messages: Message[]): Message[] => messages.map((msg: Message) => {
+  if (msg.role !== 'assistant') return msg;
+  const rawContent = msg.content || getReasoningContent(msg);
+  return { ...msg, content: ensureVisibleContent(rawContent) };
+});
+
+// How a message relates to the conversation tree: a new turn, an edit of an earlier user message, or a regeneration
+interface SendOptions {
+  regenerate?: boolean;
+  editMessageId?: string;
+}
 
-  try {
-    await fetch(`${API_BASE_URL}/api/v1/chat_messages`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': token,
-      },
-      body: JSON.stringify(body),
-    });
-  } catch {
-    // Ignore persistence failures
-  }
-};
 
-export default function Chat({ conversationId, onConversationChange, noBorder = false, userId }: ChatProps) {
+
+export default function Chat({ conversationId, focusMessage, onConversationChange, noBorder = false, userId }: ChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [streamingContent, setStreamingContent] = useState('');
+  const [activeTool, setActiveTool] = useState<string | null>(null);
+  const [pendingActions, setPendingActions] = useState<PendingAction[]>([]);
   const [currentConversationId, setCurrentConversationId] = useState<string | undefined>(conversationId);
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
-
-  const loadConversationHistory = useCallback(async (id: string) => {             
+  // A focus request waiting for its message to be loaded, and the message currently highlighted
+  const pendingFocusRef = useRef<string | null>(null);
+  // The conversation whose messages are on screen; lags `conversationId` while its history loads
+  const shownConversationRef = useRef<string | undefined>(conversationId);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Aborts the in-flight /api/chat request when the user presses Stop
+  const abortRef = useRef<AbortController | null>(null);
+
+  // `reload` refreshes the conversation on screen: a failed request keeps what is shown, and `afterStop`
+  // waits for a turn the user just stopped to be recorded with its message ids
+  const loadConversationHistory = useCallback(async (id: string, reload?: { afterStop?: boolean }) => {
+    const clear = () => {
+      if (reload) return;
+      setMessages([]);
+      setPendingActions([]);
+    };
     try {
       const response = await fetch('/api/chat/history', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ conversationId: id, userToken: userId || undefined }),
+        body: JSON.stringify({ conversationId: id, userToken: userId || undefined, afterStop: reload?.afterStop }),
       });
 
+      // The user moved on to another conversation while it reloaded
+      if (reload && shownConversationRef.current !== id) return;
       if (response.ok) {
-        const data = (await response.json()) as { messages?: Message[] };
-        // Filter out thinking/reasoning content from all assistant messages
-        const filteredMessages = (data.messages ?? []).map((msg: Message) => {
-          if (msg.role !== 'assistant') return msg;
-          const rawContent = msg.content || getReasoningContent(msg);
-          return { ...msg, content: ensureVisibleContent(rawContent) };
-        });
-        
-        setMessages(filteredMessages);
+        const data = (await response.json()) as { messages?: Message[]; pendingActions?: PendingAction[] };
+        setMessages(toDisplayMessages(data.messages ?? []));
+        setPendingActions(data.pendingActions ?? []);
       } else {
-        setMessages([]);
+        clear();
       }
     } catch {
-      setMessages([]);
+      clear();
+    } finally {
+      if (!reload) shownConversationRef.current = id;
     }
   }, [userId]);
 
@@ -379,49 +406,116 @@ export default function Chat({ conversationId, onConversationChange, noBorder =
       } else {
         // New conversation - clear messages
         setMessages([]);
+        setPendingActions([]);
+        shownConversationRef.current = undefined;
       }
       setCurrentConversationId(conversationId);
     }
   }, [conversationId, currentConversationId, loadConversationHistory]);
 
-  // Auto-scroll to the bottom when messages change
+  useEffect(() => {
+    pendingFocusRef.current = focusMessage?.id ?? null;
+  }, [focusMessage]);
+
+  // Auto-scroll to the bottom when messages change, or to a message a search result pointed at
   useEffect(() => {
     try {
+      const focusId = pendingFocusRef.current;
+      const target = focusId && messages.some(m => m.id === focusId) ? document.getElementById(`message-${focusId}`) : null;
+      if (target) {
+        pendingFocusRef.current = null;
+        target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        setHighlightedMessageId(focusId);
+        return;
+      }
+      // Wait for the conversation's history; once it is shown without the message, give up on it
+      if (focusId && shownConversationRef.current !== conversationId) return;
+      pendingFocusRef.current = null;
       messagesEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
     } catch {
       // No-op if scrolling fails
     }
-  }, [messages, isLoading]);
+  }, [messages, isLoading, streamingContent, pendingActions, focusMessage, conversationId]);
+
+  // The search highlight fades after a few seconds
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
 
-  const sendMessage = useCallback(async (userMessage: Message) => {
+  const sendMessage = useCallback(async (userMessage: Message, options: SendOptions = {}) => {
     setError('');
+    const controller = new AbortController();
+    abortRef.current = controller;
+    // Text of the current model round, kept when the user stops the answer
+    let partialContent = '';
+    const sidebarTitle = buildPreviewText(userMessage.content, 50);
+    // The server names a new conversation before answering, so a stopped first turn still belongs to it
+    let turnConversationId = currentConversationId;
+    const adoptConversation = (id: string) => {
+      turnConversationId = id;
+      if (id === currentConversationId) return;
+      setCurrentConversationId(id);
+      shownConversationRef.current = id;
+      onConversationChange?.(id, sidebarTitle || userMessage.content, '');
+    };
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
+        signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          messages: [userMessage],
+          // Regenerating answers the latest user message again instead of sending a new one
+          messages: options.regenerate ? [] : [userMessage],
           conversationId: currentConversationId,
           userToken: userId || undefined,
+          stream: true,
+          ...options,
         }),
       });
 
-      const data = (await response.json()) as {
-        choices: Array<{ message: Message & { reasoning?: string } }>;
-        conversationId?: string;
-        usedTokens?: number;
-        error?: string | { message?: string };
-      };
-      
-      if (!response.ok) {
-        const errorMessage = typeof data.error === 'string' 
-          ? data.error 
-          : data.error?.message || JSON.stringify(data.error) || 'Failed to send message';
+      if (!response.ok || !response.body) {
+        const failure = (await response.json().catch(() => ({}))) as {
+          error?: string | { message?: string };
+          code?: string;
+          conversationId?: string;
+        };
+        if (failure.code === 'quota_exceeded') notifyTokenUsage({ used: 0, remaining: 0 });
+        if (failure.code === 'cancelled' && failure.conversationId) adoptConversation(failure.conversationId);
+        const errorMessage = typeof failure.error === 'string'
+          ? failure.error
+          : failure.error?.message || JSON.stringify(failure.error) || 'Failed to send message';
         throw new Error(errorMessage);
       }
 
+      // Null until the reply is shown; a title arriving before that is picked up with it
+      let sidebarLastMessage: string | null = null;
+      let generatedTitle: string | undefined;
+      const data = await readChatStream(response.body, (event) => {
+        if (event.type === 'start') {
+          adoptConversation(event.conversationId);
+        } else if (event.type === 'delta') {
+          partialContent += event.content;
+          setStreamingContent(prev => prev + event.content);
+        } else if (event.type === 'tool_start') {
+          partialContent = '';
+          setActiveTool(event.name);
+          // Text streamed before a tool call is superseded by the next model round
+          setStreamingContent('');
+        } else if (event.type === 'tool_end') {
+          setActiveTool(null);
+        } else if (event.type === 'title') {
+          generatedTitle = event.title;
+          // Not once the user has moved to another conversation, which the callback would switch back from
+          if (sidebarLastMessage !== null && shownConversationRef.current === event.conversationId) {
+            onConversationChange?.(event.conversationId, event.title, sidebarLastMessage);
+          }
+        }
+      });
+
       let assistantMessage = data.choices[0].message as Message & { reasoning?: string };
 
       // Normalize assistant content: fall back to reasoning if content is empty
@@ -434,63 +528,183 @@ export default function Chat({ conversationId, onConversationChange, noBorder =
       }
 
       const assistantVisibleContent = assistantMessage?.content || '';
-      const sidebarTitle = buildPreviewText(userMessage.content, 50);
-      const sidebarLastMessage = buildPreviewText(assistantVisibleContent, 100);
-      const threadTitle = buildPreviewText(userMessage.content, 80);
-      const threadLastMessage = buildPreviewText(assistantVisibleContent, 160);
-      const persistedMessages: PersistedMessagePayload[] = [
-        { role: userMessage.role, content: userMessage.content }
-      ];
-
-      if (assistantMessage) {
-        const assistantPayload: PersistedMessagePayload = {
-          role: assistantMessage.role,
-          content: assistantVisibleContent
-        };
-
-        if (data?.choices?.[0]?.message) {
-          assistantPayload.metadata = { raw: data.choices[0].message };
-        }
-
-        persistedMessages.push(assistantPayload);
-      }
-      
-      // Append only the assistant message because the user message was optimistically added
-      if (assistantMessage) {
+      sidebarLastMessage = buildPreviewText(assistantVisibleContent, 100) || assistantVisibleContent;
+      // The server returns the active branch with message ids, which editing and branch switching need
+      if (data.messages?.length) {
+        setMessages(toDisplayMessages(data.messages));
+      } else if (assistantMessage) {
+        // Append only the assistant message because the user message was optimistically added
         setMessages(prev => [...prev, assistantMessage]);
       }
 
+      setPendingActions(data.pendingActions ?? []);
+
       // Notify sidebar about token usage to update HP bar immediately
-      try {
-        const used = Number(data.usedTokens || 0);
-        if (!isNaN(used) && used > 0) {
-          window.dispatchEvent(new CustomEvent('np_tokens_used', { detail: { used } }));
-        }
-      } catch {}
+      const used = Number(data.usedTokens || 0);
+      if (data.balance || (!isNaN(used) && used > 0)) {
+        notifyTokenUsage({ used: isNaN(used) ? 0 : used, ...(data.balance ?? {}) });
+      }
 
       // Update conversation ID if it's new
       if (data.conversationId && data.conversationId !== currentConversationId) {
         setCurrentConversationId(data.conversationId);
-      }
-
-      if (data.conversationId && userId) {
-        void persistChatThread(data.conversationId, userId, threadTitle, threadLastMessage);
-        void persistChatMessages(data.conversationId, userId, persistedMessages, threadTitle, threadLastMessage);
+        shownConversationRef.current = data.conversationId;
       }
 
       // Always notify parent component about conversation update
       if (onConversationChange && data.conversationId) {
-        const title = sidebarTitle || userMessage.content;
-        const filteredContent = assistantVisibleContent;
-        const lastMessage = sidebarLastMessage || filteredContent;
-        onConversationChange(data.conversationId, title, lastMessage);
+        // The server's title, generated after the first exchange, wins over the opening question
+        const title = generatedTitle || data.title || sidebarTitle || userMessage.content;
+        onConversationChange(data.conversationId, title, sidebarLastMessage);
       }
 
     } catch (err: unknown) {
+      if (controller.signal.aborted) {
+        // The server records the same cancelled turn in the conversation history
+        const partial = ensureVisibleContent(partialContent);
+        setMessages(prev => [...prev, {
+          role: 'assistant',
+          content: partial ? `${partial}\n\n${CANCELLED_NOTE}` : CANCELLED_NOTE,
+          cancelled: true,
+          createdAt: new Date().toISOString()
+        }]);
+        // Swap the local copies for the recorded ones, whose ids editing and regenerating need
+        if (turnConversationId) void loadConversationHistory(turnConversationId, { afterStop: true });
+        return;
+      }
       const message = err instanceof Error ? err.message : 'Failed to send message. Please try again.';
       setError(message);
+      // Edits and regenerations trimmed the local branch optimistically; show what the server kept
+      if ((options.regenerate || options.editMessageId) && currentConversationId) {
+        void loadConversationHistory(currentConversationId, {});
+      }
+    } finally {
+      abortRef.current = null;
+      setStreamingContent('');
+      setActiveTool(null);
     }
-  }, [currentConversationId, onConversationChange, userId]);
+  }, [currentConversationId, loadConversationHistory, onConversationChange, userId]);
+
+  const stopGeneration = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  // Inline editing of an earlier user message; sending it forks the conversation at that message
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+
+  const startEditing = useCallback((message: Message) => {
+    if (!message.id) return;
+    setEditingMessageId(message.id);
+    setEditDraft(message.content);
+  }, []);
+
+  const cancelEditing = useCallback(() => {
+    setEditingMessageId(null);
+    setEditDraft('');
+  }, []);
+
+  const submitEdit = useCallback(async () => {
+    const content = editDraft.trim();
+    const index = messages.findIndex(m => m.id === editingMessageId);
+    if (!editingMessageId || !content || index < 0 || isLoading) return;
+
+    const userMessage: Message = { role: 'user', content, createdAt: new Date().toISOString() };
+    cancelEditing();
+    setIsLoading(true);
+    try {
+      // Everything after the edited message belongs to the old branch
+      setMessages(prev => [...prev.slice(0, index), userMessage]);
+      await sendMessage(userMessage, { editMessageId: editingMessageId });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cancelEditing, editDraft, editingMessageId, isLoading, messages, sendMessage]);
+
+  // Ask for another answer to the latest user message; the previous answer stays reachable as a sibling
+  const regenerate = useCallback(async () => {
+    const index = messages.map(m => m.role).lastIndexOf('user');
+    if (index < 0 || isLoading) return;
+
+    setError('');
+    setIsLoading(true);
+    try {
+      setMessages(prev => prev.slice(0, index + 1));
+      await sendMessage(messages[index], { regenerate: true });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isLoading, messages, sendMessage]);
+
+  // Show another version of an edited or regenerated message
+  const switchBranch = useCallback(async (messageId: string) => {
+    if (!currentConversationId || isLoading) return;
+    setError('');
+    try {
+      const response = await fetch('/api/chat/branch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          conversationId: currentConversationId,
+          userToken: userId || undefined,
+          messageId,
+        }),
+      });
+      const data = (await response.json().catch(() => ({}))) as { messages?: Message[]; error?: string };
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to switch to that version');
+      }
+      setMessages(toDisplayMessages(data.messages ?? []));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to switch to that version');
+    }
+  }, [currentConversationId, isLoading, userId]);
+
+  const lastAssistantIndex = messages.map(m => m.role).lastIndexOf('assistant');
+
+  // Approve, edit or reject a preview card; approvals publish without another model round-trip
+  const resolvePendingAction = useCallback(async (
+    ticketId: string,
+    decision: PendingActionDecision,
+    changes?: PendingActionChanges
+  ) => {
+    if (!currentConversationId) return;
+    setError('');
+    try {
+      const response = await fetch('/api/chat/actions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          conversationId: currentConversationId,
+          userToken: userId || undefined,
+          ticketId,
+          decision,
+          changes,
+        }),
+      });
+
+      const data = (await response.json().catch(() => ({}))) as {
+        messages?: Message[];
+        pendingActions?: PendingAction[];
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update the preview');
+      }
+
+      setPendingActions(data.pendingActions ?? []);
+      const recorded = data.messages ?? [];
+      if (recorded.length > 0) {
+        setMessages(prev => [...prev, ...recorded]);
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to update the preview');
+    }
+  }, [currentConversationId, userId]);
 
   const handleSubmit = useCallback(async (e?: React.FormEvent | KeyboardEvent) => {
     e?.preventDefault();
@@ -499,6 +713,7 @@ export default function Chat({ conversationId, onConversationChange, noBorder =
     const userMessage: Message = {
       role: 'user',
       content: input.trim(),
+      createdAt: new Date().toISOString(),
     };
 
     setInput('');
@@ -520,15 +735,22 @@ export default function Chat({ conversationId, onConversationChange, noBorder =
         e.preventDefault();
         handleSubmit(e);
       }
-      // Escape to clear input
+      // Escape to clear input, or to stop an answer that is still coming in
       if (e.key === 'Escape') {
-        setInput('');
+        if (abortRef.current) {
+          stopGeneration();
+        } else {
+          setInput('');
+        }
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [handleSubmit]);
+  }, [handleSubmit, stopGeneration]);
+
+  // Leaving the chat stops an answer that is still being generated
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   return (
     <div className={`flex flex-col h-full bg-gray-50 ${noBorder ? '' : 'rounded-lg shadow-xl border border-gray-200'}`}>
@@ -580,7 +802,8 @@ export default function Chat({ conversationId, onConversationChange, noBorder =
         <div className="space-y-3 sm:space-y-4">
           {messages.map((message, index) => (
             <div
-              key={index}
+              key={message.id ?? index}
+              id={message.id ? `message-${message.id}` : undefined}
               className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-4 fade-in duration-300`}
               style={{ animationDelay: `${index * 100}ms` }}
             >
@@ -589,7 +812,7 @@ export default function Chat({ conversationId, onConversationChange, noBorder =
                   message.role === 'user'
                     ? 'bg-black text-white hover:bg-gray-900'
                     : 'bg-white text-gray-800 border border-gray-200 hover:border-gray-300'
-                }`}
+                } ${message.id && message.id === highlightedMessageId ? 'ring-2 ring-yellow-400 ring-offset-2' : ''}`}
                 style={{ wordBreak: 'break-word', overflowWrap: 'break-word' }}
               >
                 <div className="text-xs sm:text-sm opacity-75 mb-1 sm:mb-2 flex items-center gap-2">
@@ -606,20 +829,109 @@ export default function Chat({ conversationId, onConversationChange, noBorder =
                     )}
                     <span>{message.role === 'user' ? 'You' : 'Lotte'}</span>
                   </div>
-                  <span className="text-xs opacity-50 flex items-center gap-1">
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                    </svg>
-                    {new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                  </span>
-                </div>
-                <div className={`prose prose-sm max-w-none break-words overflow-wrap-anywhere whitespace-pre-wrap leading-relaxed text-sm sm:text-base ${message.role === 'user' ? 'prose-invert' : ''}`}>
-                  {renderMessageContent(message.content)}
+                  {message.createdAt && (
+                    <span className="text-xs opacity-50 flex items-center gap-1" title={new Date(message.createdAt).toLocaleString()}>
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      {formatMessageTime(message.createdAt)}
+                    </span>
+                  )}
                 </div>
+                {editingMessageId && message.id === editingMessageId ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editDraft}
+                      onChange={(e) => setEditDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        // Keep the global shortcuts (send, clear) away from the inline editor
+                        e.stopPropagation();
+                        if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+                          e.preventDefault();
+                          void submitEdit();
+                        } else if (e.key === 'Escape') {
+                          cancelEditing();
+                        }
+                      }}
+                      className="w-full min-w-[16rem] p-2 rounded-lg text-gray-800 bg-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-gray-400"
+                      rows={3}
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2 text-xs sm:text-sm">
+                      <button type="button" onClick={cancelEditing} className="px-3 py-1 rounded-lg border border-gray-500 hover:bg-gray-800 transition-colors">
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void submitEdit()}
+                        disabled={!editDraft.trim()}
+                        className="px-3 py-1 rounded-lg bg-white text-gray-900 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Send
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className={`prose prose-sm max-w-none break-words overflow-wrap-anywhere whitespace-pre-wrap leading-relaxed text-sm sm:text-base ${message.role === 'user' ? 'prose-invert' : ''}`}>
+                    {renderMessageContent(message.content)}
+                  </div>
+                )}
+                {message.role === 'assistant' && message.metadata && (() => {
+                  const { summary, details } = describeMetadata(message.metadata);
+                  return summary ? (
+                    <div className="mt-2 text-[11px] text-gray-400" title={details || undefined}>{summary}</div>
+                  ) : null;
+                })()}
+                {!isLoading && message.id && editingMessageId !== message.id && (
+                  message.branch || message.role === 'user' || index === lastAssistantIndex
+                ) && (
+                  <div className={`mt-2 flex items-center gap-2 text-xs ${message.role === 'user' ? 'justify-end text-gray-300' : 'text-gray-500'}`}>
+                    {message.branch && (
+                      <span className="flex items-center gap-1" aria-label="Versions of this message">
+                        <button
+                          type="button"
+                          onClick={() => message.branch && void switchBranch(message.branch.siblingIds[message.branch.index - 1])}
+                          disabled={message.branch.index === 0}
+                          className="px-1 rounded hover:opacity-75 disabled:opacity-30 disabled:cursor-not-allowed"
+                          title="Previous version"
+                        >
+                          &lsaquo;
+                        </button>
+                        <span>{message.branch.index + 1}/{message.branch.count}</span>
+                        <button
+                          type="button"
+                          onClick={() => message.branch && void switchBranch(message.branch.siblingIds[message.branch.index + 1])}
+                          disabled={message.branch.index === message.branch.count - 1}
+                          className="px-1 rounded hover:opacity-75 disabled:opacity-30 disabled:cursor-not-allowed"
+                          title="Next version"
+                        >
+                          &rsaquo;
+                        </button>
+                      </span>
+                    )}
+                    {message.role === 'user' && (
+                      <button type="button" onClick={() => startEditing(message)} className="hover:opacity-75" title="Edit and resend">
+                        Edit
+                      </button>
+                    )}
+                    {message.role === 'assistant' && index === lastAssistantIndex && (
+                      <button type="button" onClick={() => void regenerate()} className="hover:opacity-75" title="Generate another answer">
+                        Regenerate
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           ))}
         </div>
+        {!isLoading && pendingActions.length > 0 && (
+          <div className="space-y-3 sm:space-y-4">
+            {pendingActions.map(action => (
+              <PendingActionCard key={action.ticketId} action={action} onResolve={resolvePendingAction} />
+            ))}
+          </div>
+        )}
         {isLoading && (
           <div className="flex justify-start animate-in slide-in-from-bottom-4 fade-in duration-300">
             <div className="relative p-3 sm:p-4 rounded-2xl shadow-sm bg-white border border-gray-200 max-w-[90%] sm:max-w-[85%] text-gray-800">
@@ -634,11 +946,25 @@ export default function Chat({ conversationId, onConversationChange, noBorder =
                   </svg>
                 </span>
               </div>
-              <div className="flex items-center space-x-1">
-                <div className="w-2 h-2 rounded-full bg-gray-700 animate-bounce"></div>
-                <div className="w-2 h-2 rounded-full bg-gray-700 animate-bounce delay-100"></div>
-                <div className="w-2 h-2 rounded-full bg-gray-700 animate-bounce delay-200"></div>
-              </div>
+              {activeTool && (
+                <div className="text-xs text-gray-500 mb-2 flex items-center gap-2" aria-live="polite">
+                  <svg className="w-3 h-3 animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                  <span>{TOOL_LABELS[activeTool] || 'Running tool'} <code className="text-[11px]">{activeTool}</code>...</span>
+                </div>
+              )}
+              {streamingContent && ensureVisibleContent(streamingContent) ? (
+                <div className="prose prose-sm max-w-none break-words overflow-wrap-anywhere whitespace-pre-wrap leading-relaxed text-sm sm:text-base">
+                  {renderMessageContent(ensureVisibleContent(streamingContent))}
+                </div>
+              ) : (
+                <div className="flex items-center space-x-1">
+                  <div className="w-2 h-2 rounded-full bg-gray-700 animate-bounce"></div>
+                  <div className="w-2 h-2 rounded-full bg-gray-700 animate-bounce delay-100"></div>
+                  <div className="w-2 h-2 rounded-full bg-gray-700 animate-bounce delay-200"></div>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -679,16 +1005,30 @@ export default function Chat({ conversationId, onConversationChange, noBorder =
               </button>
             )}
           </div>
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim()}
-            className="px-4 sm:px-6 py-2 sm:py-3 bg-black text-white font-medium rounded-lg hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-700 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all text-sm sm:text-base flex items-center gap-2"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-            </svg>
-            <span className="hidden sm:inline">Send</span>
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={stopGeneration}
+              className="px-4 sm:px-6 py-2 sm:py-3 bg-white text-gray-900 font-medium rounded-lg border border-gray-300 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-700 focus:ring-offset-2 transition-all text-sm sm:text-base flex items-center gap-2"
+              title="Stop generating"
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                <rect x="6" y="6" width="12" height="12" rx="2" />
+              </svg>
+              <span className="hidden sm:inline">Stop</span>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="px-4 sm:px-6 py-2 sm:py-3 bg-black text-white font-medium rounded-lg hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-700 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all text-sm sm:text-base flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+              </svg>
+              <span className="hidden sm:inline">Send</span>
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -1,12 +1,17 @@
 'use client';
 
-import { useState, useEffect, useImperativeHandle, forwardRef } from 'react';
+import { useState, useEffect, useImperativeHandle, useRef, forwardRef } from 'react';
+import { ChatThread, ConversationSearchResult, TokenBalance, TokenUsageEventDetail } from '@/types/chat';
 
 interface ChatHistory {
   id: string;
   title: string;
   lastMessage: string;
   timestamp: Date;
+  pinned?: boolean;
+  archived?: boolean;
+  // The user renamed the conversation, so new turns keep its title
+  renamed?: boolean;
 }
 
 interface StoredChatHistory extends Omit<ChatHistory, 'timestamp'> {
@@ -15,11 +20,52 @@ interface StoredChatHistory extends Omit<ChatHistory, 'timestamp'> {
 
 interface ChatSidebarProps {
   onNewChat: () => void;
-  onSelectChat: (conversationId: string) => void;
+  // `messageId` is set when a search result points at a message within the conversation
+  onSelectChat: (conversationId: string, messageId?: string) => void;
   currentConversationId?: string;
   userId?: string | null;
 }
 
+type ExportFormat = 'markdown' | 'html' | 'json';
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'markdown', label: 'Markdown transcript' },
+  { format: 'html', label: 'HTML page' },
+  { format: 'json', label: 'JSON (can be imported)' },
+];
+
+// Shortest query sent to the search endpoint, and how long typing has to pause first
+const MIN_SEARCH_LENGTH = 2;
+const SEARCH_DELAY_MS = 300;
+
+// Split a search snippet into plain text and highlighted matches
+const highlightSnippet = (snippet: string, highlights: Array<[number, number]>) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start < cursor) return;
+    if (start > cursor) parts.push(snippet.slice(cursor, start));
+    parts.push(<mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">{snippet.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(snippet.slice(cursor));
+  return parts;
+};
+
+const fromThread = (thread: ChatThread): ChatHistory => ({
+  id: thread.id,
+  title: thread.title,
+  lastMessage: thread.lastMessage,
+  timestamp: new Date(thread.updatedAt),
+  pinned: thread.pinned,
+  archived: thread.archived,
+  renamed: thread.renamed
+});
+
+// Pinned conversations first, then the most recently active
+const sortChats = (chats: ChatHistory[]): ChatHistory[] =>
+  [...chats].sort((a, b) => Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)) || b.timestamp.getTime() - a.timestamp.getTime());
+
 export interface ChatSidebarRef {
   addToHistory: (conversationId: string, title: string, lastMessage: string) => void;
 }
@@ -27,6 +73,27 @@ export interface ChatSidebarRef {
 const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, onSelectChat, currentConversationId, userId }, ref) => {
   const [chatHistory, setChatHistory] = useState<ChatHistory[]>([]);
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [tokenBalance, setTokenBalance] = useState<TokenBalance | null>(null);
+  // Full-health mark for the HP bar: the reported allowance, or the first balance seen this session
+  const [tokenCeiling, setTokenCeiling] = useState(0);
+  // Conversation whose actions menu is open
+  const [menuFor, setMenuFor] = useState<string | null>(null);
+  // Conversation whose title is being edited, and the draft title
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  // Cleared as soon as the edit ends, so the blur that follows Enter or Escape does not save again
+  const renamingRef = useRef(renaming);
+  renamingRef.current = renaming;
+  const [showArchived, setShowArchived] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  // null while the chat list is shown instead of search results
+  const [searchResults, setSearchResults] = useState<ConversationSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // The conversation IDs the search request sends, kept out of the search effect's dependencies
+  const chatIdsRef = useRef<string[]>([]);
+  chatIdsRef.current = chatHistory.map(chat => chat.id);
 
   // Load chat history from localStorage on mount - user-specific
   useEffect(() => {
@@ -50,43 +117,39 @@ const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, o
     }
   }, [userId]);
 
-  // Load conversation IDs from Rails backend and merge into sidebar list
+  // Replace the cached list with the server's: backend threads with their titles, pins and archive state,
+  // plus conversations started in this browser that the backend has not recorded yet
   useEffect(() => {
     const fetchThreads = async () => {
       if (!userId) return;
+      const requestedAt = Date.now();
       try {
-        const base = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000';
-        const resp = await fetch(`${base}/api/v1/chat_threads`, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': userId
-          }
+        let knownIds: string[] = [];
+        try {
+          knownIds = (JSON.parse(localStorage.getItem(`chatHistory_${userId}`) || '[]') as StoredChatHistory[]).map(item => item.id);
+        } catch {
+          // A corrupt cache only loses the conversations the backend does not know about
+        }
+        const resp = await fetch('/api/chat/threads', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ userToken: userId, conversationIds: knownIds })
         });
         if (!resp.ok) {
-          console.warn('Sidebar: Failed to load backend chat threads');
+          console.warn('Sidebar: Failed to load chat threads');
           return;
         }
-        const data = (await resp.json().catch(() => ({ threads: [] }))) as { threads?: unknown };
-        const threads = Array.isArray(data?.threads) ? data.threads.filter((id): id is string => typeof id === 'string') : [];
-
-        if (threads.length === 0) return;
-
-        setChatHistory(prev => {
-          const existingIds = new Set(prev.map(c => c.id));
-          const now = new Date();
-          const additions: ChatHistory[] = threads
-            .filter(id => !existingIds.has(id))
-            .map(id => ({
-              id,
-              title: `Conversation ${id.substring(0, 8)}...`,
-              lastMessage: '',
-              timestamp: now
-            }));
-          return additions.length ? [...additions, ...prev] : prev;
-        });
+        const data = (await resp.json().catch(() => ({ threads: [] }))) as { threads?: ChatThread[] };
+        const threads = (data.threads ?? []).map(fromThread);
+        const listedIds = new Set(threads.map(thread => thread.id));
+
+        // Conversations started while the list was loading are kept
+        setChatHistory(prev => sortChats([
+          ...threads,
+          ...prev.filter(chat => !listedIds.has(chat.id) && chat.timestamp.getTime() >= requestedAt)
+        ]));
       } catch (error: unknown) {
-        console.warn('Sidebar: Error loading backend chat threads', error);
+        console.warn('Sidebar: Error loading chat threads', error);
       }
     };
 
@@ -94,6 +157,51 @@ const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, o
   }, [userId]);
 
 
+  // Load the user's token balance for the HP bar
+  useEffect(() => {
+    if (!userId) {
+      setTokenBalance(null);
+      return;
+    }
+    const fetchBalance = async () => {
+      try {
+        const resp = await fetch('/api/chat/balance', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ userToken: userId })
+        });
+        if (!resp.ok) return;
+        const data = (await resp.json().catch(() => ({}))) as { balance?: TokenBalance | null };
+        if (data.balance) {
+          setTokenBalance(data.balance);
+          setTokenCeiling(data.balance.total ?? data.balance.remaining);
+        }
+      } catch (error: unknown) {
+        console.warn('Sidebar: Error loading token balance', error);
+      }
+    };
+
+    fetchBalance();
+  }, [userId]);
+
+  // Keep the HP bar in step with the usage Chat reports after every turn
+  useEffect(() => {
+    const onTokensUsed = (event: Event) => {
+      const detail = (event as CustomEvent<TokenUsageEventDetail>).detail;
+      if (!detail) return;
+      setTokenBalance(prev => {
+        if (typeof detail.remaining === 'number') {
+          return { remaining: detail.remaining, total: detail.total ?? prev?.total };
+        }
+        if (!prev) return prev;
+        return { ...prev, remaining: Math.max(0, prev.remaining - (detail.used || 0)) };
+      });
+    };
+
+    window.addEventListener('np_tokens_used', onTokensUsed);
+    return () => window.removeEventListener('np_tokens_used', onTokensUsed);
+  }, []);
+
   // Save chat history to localStorage whenever it changes - user-specific
   useEffect(() => {
     if (!userId) return;
@@ -106,9 +214,11 @@ const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, o
     console.log('Sidebar: addToHistory called with:', { conversationId, title, lastMessage });
     setChatHistory(prev => {
       const existingIndex = prev.findIndex(chat => chat.id === conversationId);
-      const newEntry = {
+      const existing = prev[existingIndex];
+      const newEntry: ChatHistory = {
+        ...existing,
         id: conversationId,
-        title,
+        title: existing?.renamed ? existing.title : title,
         lastMessage,
         timestamp: new Date()
       };
@@ -118,11 +228,11 @@ const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, o
         const updated = [...prev];
         updated[existingIndex] = newEntry;
         console.log('Sidebar: Updated existing chat at index', existingIndex);
-        return updated;
+        return sortChats(updated);
       } else {
         // Add new chat at the beginning
         console.log('Sidebar: Adding new chat');
-        return [newEntry, ...prev];
+        return sortChats([newEntry, ...prev]);
       }
     });
   };
@@ -132,8 +242,158 @@ const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, o
     addToHistory
   }));
 
-  const deleteChat = (conversationId: string) => {
-    setChatHistory(prev => prev.filter(chat => chat.id !== conversationId));
+  const exportChat = async (chat: ChatHistory, format: ExportFormat) => {
+    setMenuFor(null);
+    if (!userId) return;
+    setActionError(null);
+    try {
+      const resp = await fetch('/api/chat/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId: chat.id, userToken: userId, format, title: chat.title })
+      });
+      if (!resp.ok) {
+        const data = (await resp.json().catch(() => ({}))) as { error?: string };
+        throw new Error(data.error || 'Export failed');
+      }
+      const filename = /filename="([^"]+)"/.exec(resp.headers.get('Content-Disposition') || '')?.[1] || `conversation.${format}`;
+      const url = URL.createObjectURL(await resp.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      setActionError(error instanceof Error ? error.message : 'Export failed');
+    }
+  };
+
+  const importChat = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !userId) return;
+    setActionError(null);
+    try {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error('Choose a JSON file exported from Lotte');
+      }
+      const resp = await fetch('/api/chat/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userToken: userId, bundle })
+      });
+      const data = (await resp.json().catch(() => ({}))) as { conversationId?: string; title?: string; lastMessage?: string; error?: string };
+      if (!resp.ok || !data.conversationId) throw new Error(data.error || 'Import failed');
+      addToHistory(data.conversationId, data.title || 'Imported conversation', data.lastMessage || '');
+      onSelectChat(data.conversationId);
+    } catch (error: unknown) {
+      setActionError(error instanceof Error ? error.message : 'Import failed');
+    }
+  };
+
+  // Search message contents once typing pauses; clearing the box brings back the chat list
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!userId || query.length < MIN_SEARCH_LENGTH) {
+      setSearchResults(null);
+      setSearchError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const resp = await fetch('/api/chat/search', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ userToken: userId, query, conversationIds: chatIdsRef.current }),
+          signal: controller.signal
+        });
+        const data = (await resp.json().catch(() => ({}))) as { results?: ConversationSearchResult[]; error?: string };
+        if (!resp.ok) throw new Error(data.error || 'Search failed');
+        setSearchResults(data.results ?? []);
+        setSearchError(null);
+      } catch (error: unknown) {
+        if (controller.signal.aborted) return;
+        setSearchError(error instanceof Error ? error.message : 'Search failed');
+        setSearchResults([]);
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery, userId]);
+
+  // Apply a rename, pin or archive right away and undo it if the server refuses
+  const updateChat = async (chat: ChatHistory, changes: { title?: string | null; pinned?: boolean; archived?: boolean }) => {
+    setMenuFor(null);
+    if (!userId) return;
+    setActionError(null);
+    const applied: Partial<ChatHistory> = {
+      ...(changes.pinned !== undefined ? { pinned: changes.pinned } : {}),
+      ...(changes.archived !== undefined ? { archived: changes.archived } : {}),
+      ...(changes.title ? { title: changes.title, renamed: true } : {})
+    };
+    setChatHistory(prev => sortChats(prev.map(item => (item.id === chat.id ? { ...item, ...applied } : item))));
+    try {
+      const resp = await fetch('/api/chat/threads/update', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId: chat.id, userToken: userId, ...changes })
+      });
+      const data = (await resp.json().catch(() => ({}))) as { thread?: ChatThread; error?: string };
+      if (!resp.ok || !data.thread) throw new Error(data.error || 'Could not update the conversation');
+      const { title, renamed, pinned, archived } = data.thread;
+      // The server may not know the backend's title, so it is only taken when the title was changed
+      const titleChange = changes.title !== undefined ? { title, renamed } : {};
+      setChatHistory(prev => sortChats(prev.map(item => (item.id === chat.id ? { ...item, ...titleChange, pinned, archived } : item))));
+    } catch (error: unknown) {
+      const { id, title, renamed, pinned, archived } = chat;
+      setChatHistory(prev => sortChats(prev.map(item => (item.id === id ? { ...item, title, renamed, pinned, archived } : item))));
+      setActionError(error instanceof Error ? error.message : 'Could not update the conversation');
+    }
+  };
+
+  const cancelRename = () => {
+    renamingRef.current = null;
+    setRenaming(null);
+  };
+
+  const submitRename = () => {
+    const current = renamingRef.current;
+    if (!current) return;
+    cancelRename();
+    const chat = chatHistory.find(item => item.id === current.id);
+    const title = current.title.trim();
+    if (chat && title !== chat.title) void updateChat(chat, { title: title || null });
+  };
+
+  const deleteChat = async (chat: ChatHistory) => {
+    setMenuFor(null);
+    if (!userId || !window.confirm(`Delete "${chat.title}"? This cannot be undone.`)) return;
+    setActionError(null);
+    try {
+      const resp = await fetch('/api/chat/threads/delete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId: chat.id, userToken: userId })
+      });
+      const data = (await resp.json().catch(() => ({}))) as { error?: string };
+      if (!resp.ok) throw new Error(data.error || 'Could not delete the conversation');
+      setChatHistory(prev => prev.filter(item => item.id !== chat.id));
+      if (currentConversationId === chat.id) onNewChat();
+    } catch (error: unknown) {
+      setActionError(error instanceof Error ? error.message : 'Could not delete the conversation');
+    }
   };
 
   const formatTime = (date: Date) => {
@@ -147,6 +407,13 @@ const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, o
     }
   };
 
+  const archivedCount = chatHistory.filter(chat => chat.archived).length;
+  const visibleChats = chatHistory.filter(chat => Boolean(chat.archived) === showArchived);
+
+  const tokenMax = tokenBalance ? Math.max(tokenBalance.total ?? tokenCeiling, tokenBalance.remaining, 1) : 1;
+  const tokenPercent = tokenBalance ? Math.round((tokenBalance.remaining / tokenMax) * 100) : 0;
+  const tokenBarColor = tokenPercent > 50 ? 'bg-green-500' : tokenPercent > 20 ? 'bg-yellow-500' : 'bg-red-500';
+
   const truncateText = (text: string, maxLength: number = 80) => {
     if (text.length <= maxLength) return text;
     return text.substring(0, maxLength) + '...';
@@ -198,11 +465,75 @@ const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, o
           </svg>
           {!isCollapsed && <span className="ml-2">New Chat</span>}
         </button>
+        {!isCollapsed && userId && (
+          <>
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              className="mt-2 w-full text-xs sm:text-sm py-1.5 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors"
+              title="Continue a conversation from a JSON export"
+            >
+              Import conversation
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importChat} />
+          </>
+        )}
+        {!isCollapsed && actionError && (
+          <p className="mt-2 text-xs text-red-600" role="alert">{actionError}</p>
+        )}
+        {!isCollapsed && userId && (
+          <div className="mt-3 relative">
+            <svg className="w-4 h-4 absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setSearchQuery('');
+              }}
+              placeholder="Search conversations"
+              aria-label="Search conversations"
+              className="w-full pl-8 pr-2 py-1.5 text-xs sm:text-sm rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-black/20"
+            />
+          </div>
+        )}
       </div>
 
       {/* Chat History */}
       <div className="flex-1 overflow-y-auto">
-        {chatHistory.length === 0 ? (
+        {!isCollapsed && searchResults !== null ? (
+          <div className="space-y-1 p-1 sm:p-2" aria-live="polite">
+            {searchError && <p className="p-2 text-xs text-red-600" role="alert">{searchError}</p>}
+            {!searchError && searchResults.length === 0 && (
+              <p className="p-3 text-center text-xs sm:text-sm text-gray-500">
+                {isSearching ? 'Searching...' : 'No messages match your search'}
+              </p>
+            )}
+            {searchResults.map(result => (
+              <button
+                key={result.conversationId}
+                type="button"
+                onClick={() => onSelectChat(result.conversationId, result.messageId)}
+                className={`block w-full text-left p-2 sm:p-3 rounded-lg transition-all duration-200 ${
+                  currentConversationId === result.conversationId ? 'bg-gray-200' : 'bg-gray-50 hover:bg-gray-100 hover:shadow-md'
+                }`}
+              >
+                <h3 className="text-xs sm:text-sm font-medium truncate">
+                  {chatHistory.find(chat => chat.id === result.conversationId)?.title || result.title}
+                </h3>
+                <p className="text-xs mt-1 text-gray-700 line-clamp-3">
+                  <span className="font-medium text-gray-500">{result.role === 'user' ? 'You: ' : 'Lotte: '}</span>
+                  {highlightSnippet(result.snippet, result.highlights)}
+                </p>
+                {result.matches > 1 && (
+                  <p className="text-xs mt-1 text-gray-500">{result.matches} matching messages</p>
+                )}
+              </button>
+            ))}
+          </div>
+        ) : chatHistory.length === 0 ? (
           <div className="p-3 sm:p-4 text-center text-gray-500">
             {!isCollapsed && (
               <>
@@ -223,7 +554,10 @@ const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, o
           </div>
         ) : (
           <div className="space-y-1 p-1 sm:p-2">
-            {chatHistory.map((chat, index) => (
+            {!isCollapsed && showArchived && (
+              <p className="px-2 pt-1 text-xs font-medium text-gray-500">Archived conversations</p>
+            )}
+            {visibleChats.map((chat, index) => (
               <div
                 key={chat.id}
                 className={`group relative p-2 sm:p-3 rounded-lg cursor-pointer transition-all duration-200 ${
@@ -238,12 +572,35 @@ const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, o
                   <div className="flex-1 min-w-0">
                     {!isCollapsed && (
                       <>
-                        <h3 className="text-xs sm:text-sm font-medium truncate flex items-center gap-2">
-                          <svg className="w-3 h-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-                          </svg>
-                          {chat.title}
-                        </h3>
+                        {renaming?.id === chat.id ? (
+                          <input
+                            autoFocus
+                            value={renaming.title}
+                            maxLength={120}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={(e) => setRenaming({ id: chat.id, title: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') submitRename();
+                              if (e.key === 'Escape') cancelRename();
+                            }}
+                            onBlur={submitRename}
+                            aria-label="Conversation title"
+                            className="w-full rounded border border-gray-300 px-1 py-0.5 text-xs sm:text-sm text-gray-900"
+                          />
+                        ) : (
+                          <h3 className="text-xs sm:text-sm font-medium truncate flex items-center gap-2">
+                            {chat.pinned ? (
+                              <svg className="w-3 h-3 flex-shrink-0" fill="currentColor" viewBox="0 0 24 24" aria-label="Pinned">
+                                <path d="M16 3a1 1 0 01.7 1.7L15 6.4v4.2l2.7 2.7A1 1 0 0117 15h-4v5l-1 2-1-2v-5H7a1 1 0 01-.7-1.7L9 10.6V6.4L7.3 4.7A1 1 0 018 3h8z" />
+                              </svg>
+                            ) : (
+                              <svg className="w-3 h-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+                              </svg>
+                            )}
+                            {chat.title}
+                          </h3>
+                        )}
                         <p className={`text-xs mt-1 truncate ${
                           currentConversationId === chat.id ? 'text-gray-200' : 'text-gray-600'
                         }`}>
@@ -261,11 +618,66 @@ const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, o
                     )}
                   </div>
                   
+                  {!isCollapsed && (
+                    <div className="relative">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setMenuFor(prev => (prev === chat.id ? null : chat.id));
+                        }}
+                        className={`${menuFor === chat.id ? 'opacity-100' : 'opacity-0'} group-hover:opacity-100 p-1 hover:bg-gray-300 rounded transition-all duration-200 hover:scale-110`}
+                        title="More actions"
+                        aria-haspopup="menu"
+                        aria-expanded={menuFor === chat.id}
+                      >
+                        <svg className="w-3 h-3 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h.01M12 12h.01M19 12h.01M6 12a1 1 0 11-2 0 1 1 0 012 0zm7 0a1 1 0 11-2 0 1 1 0 012 0zm7 0a1 1 0 11-2 0 1 1 0 012 0z" />
+                        </svg>
+                      </button>
+                      {menuFor === chat.id && (
+                        <div role="menu" className="absolute right-0 z-10 mt-1 w-48 rounded-lg border border-gray-200 bg-white py-1 shadow-lg text-gray-800">
+                          {[
+                            { label: 'Rename', run: () => { setMenuFor(null); setRenaming({ id: chat.id, title: chat.title }); } },
+                            { label: chat.pinned ? 'Unpin' : 'Pin to top', run: () => void updateChat(chat, { pinned: !chat.pinned }) },
+                            { label: chat.archived ? 'Unarchive' : 'Archive', run: () => void updateChat(chat, { archived: !chat.archived }) },
+                          ].map(item => (
+                            <button
+                              key={item.label}
+                              type="button"
+                              role="menuitem"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                item.run();
+                              }}
+                              className="block w-full px-3 py-1.5 text-left text-xs sm:text-sm hover:bg-gray-100"
+                            >
+                              {item.label}
+                            </button>
+                          ))}
+                          <p className="mt-1 border-t border-gray-100 px-3 pt-1.5 pb-0.5 text-[11px] uppercase tracking-wide text-gray-400">Export</p>
+                          {EXPORT_OPTIONS.map(option => (
+                            <button
+                              key={option.format}
+                              type="button"
+                              role="menuitem"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                void exportChat(chat, option.format);
+                              }}
+                              className="block w-full px-3 py-1.5 text-left text-xs sm:text-sm hover:bg-gray-100"
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
                   {!isCollapsed && (
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
-                        deleteChat(chat.id);
+                        void deleteChat(chat);
                       }}
                       className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-300 rounded transition-all duration-200 hover:scale-110"
                       title="Delete chat"
@@ -278,12 +690,53 @@ const ChatSidebar = forwardRef<ChatSidebarRef, ChatSidebarProps>(({ onNewChat, o
                 </div>
               </div>
             ))}
+            {!isCollapsed && (showArchived || archivedCount > 0) && (
+              <button
+                type="button"
+                onClick={() => setShowArchived(prev => !prev)}
+                className="w-full px-2 py-1.5 text-left text-xs text-gray-500 hover:text-gray-800"
+              >
+                {showArchived ? 'Back to conversations' : `Archived (${archivedCount})`}
+              </button>
+            )}
           </div>
         )}
       </div>
 
       {/* Footer */}
       <div className="p-3 sm:p-4 border-t border-gray-200">
+        {tokenBalance && (
+          <div
+            className="mb-3"
+            title={`${tokenBalance.remaining.toLocaleString()} tokens left`}
+          >
+            {!isCollapsed && (
+              <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                <span className="font-medium">HP</span>
+                <span>
+                  {tokenBalance.remaining.toLocaleString()}
+                  {tokenBalance.total ? ` / ${tokenBalance.total.toLocaleString()}` : ''} tokens
+                </span>
+              </div>
+            )}
+            <div
+              className="h-2 w-full rounded-full bg-gray-200 overflow-hidden"
+              role="progressbar"
+              aria-label="Remaining tokens"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={tokenPercent}
+            >
+              <div
+                className={`h-full ${tokenBarColor} transition-all duration-500`}
+                style={{ width: `${tokenPercent}%` }}
+              />
+            </div>
+            {!isCollapsed && tokenBalance.remaining <= 0 && (
+              <p className="text-xs text-red-600 mt-1">Out of tokens. Top up to keep chatting.</p>
+            )}
+          </div>
+        )}
         {!isCollapsed && (
             <div className="text-xs text-gray-600 text-center">
               
@@ -0,0 +1,244 @@
+'use client';
+
+import React, { useState } from 'react';
+import { DiffLine, PendingAction } from '@/types/chat';
+import { sanitizeHtml } from '@/utils/sanitizeHtml';
+
+export type PendingActionDecision = 'approve' | 'reject' | 'edit';
+
+export interface PendingActionChanges {
+  title?: string;
+  description?: string;
+  // Re-preview a create that found similar posts, this time allowing it
+  allow_duplicate?: boolean;
+}
+
+interface PendingActionCardProps {
+  action: PendingAction;
+  onResolve: (ticketId: string, decision: PendingActionDecision, changes?: PendingActionChanges) => Promise<void>;
+}
+
+const describeTarget = (action: PendingAction): string => {
+  const { preview } = action;
+  if (action.tool === 'edit_content') {
+    return preview.content_id ? `Editing post #${preview.content_id}` : 'Editing an existing post';
+  }
+  const type = preview.content_type || 'post';
+  if (!preview.parent_id) return `New ${type}`;
+  const parentType = type === 'idea' ? 'problem' : 'subject';
+  return `New ${type} under ${parentType} #${preview.parent_id}`;
+};
+
+// Unchanged lines shown around each change; longer unchanged runs collapse to a count
+const DIFF_CONTEXT = 2;
+
+type DiffRow = DiffLine | { type: 'skipped'; count: number };
+
+const collapseDiff = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type !== 'same') {
+      rows.push(lines[index++]);
+      continue;
+    }
+    let end = index;
+    while (end < lines.length && lines[end].type === 'same') end++;
+    const keepBefore = index === 0 ? 0 : DIFF_CONTEXT;
+    const keepAfter = end === lines.length ? 0 : DIFF_CONTEXT;
+    if (end - index > keepBefore + keepAfter + 1) {
+      rows.push(...lines.slice(index, index + keepBefore));
+      rows.push({ type: 'skipped', count: end - index - keepBefore - keepAfter });
+      rows.push(...lines.slice(end - keepAfter, end));
+    } else {
+      rows.push(...lines.slice(index, end));
+    }
+    index = end;
+  }
+  return rows;
+};
+
+const DIFF_ROW_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+};
+
+const DIFF_ROW_MARKERS: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' };
+
+export default function PendingActionCard({ action, onResolve }: PendingActionCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [title, setTitle] = useState(action.preview.title || '');
+  const [description, setDescription] = useState(action.preview.description || '');
+  const { preview } = action;
+  // A create that looks like an existing post needs an explicit "create anyway" before it can be approved
+  const blockedByDuplicates = action.tool === 'create_content' && (preview.duplicates?.length ?? 0) > 0 && !preview.allow_duplicate;
+
+  const resolve = async (decision: PendingActionDecision, changes?: PendingActionChanges) => {
+    setIsBusy(true);
+    try {
+      await onResolve(action.ticketId, decision, changes);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const submitEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const changes: PendingActionChanges = {};
+    if (title.trim() && title !== preview.title) changes.title = title.trim();
+    if (description.trim() && description !== preview.description) changes.description = description;
+    if (!changes.title && !changes.description) {
+      setIsEditing(false);
+      return;
+    }
+    await resolve('edit', changes);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="flex justify-start animate-in slide-in-from-bottom-4 fade-in duration-300">
+      <div className="w-full max-w-[90%] sm:max-w-[85%] rounded-2xl border border-amber-300 bg-amber-50 p-3 sm:p-4 shadow-sm text-gray-800">
+        <div className="text-xs sm:text-sm mb-2 flex items-center gap-2 text-amber-800">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+          </svg>
+          <span className="font-medium">Preview – waiting for your approval</span>
+          <span className="opacity-75">· {describeTarget(action)}</span>
+        </div>
+
+        {isEditing ? (
+          <form onSubmit={submitEdit} className="space-y-2">
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Title"
+              className="w-full p-2 border border-gray-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-gray-700"
+              disabled={isBusy}
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (markdown)"
+              rows={8}
+              className="w-full p-2 border border-gray-200 rounded-lg text-sm bg-white font-mono focus:outline-none focus:ring-2 focus:ring-gray-700"
+              disabled={isBusy}
+            />
+            <div className="flex gap-2 justify-end">
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+                disabled={isBusy}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-3 py-1.5 text-sm rounded-lg bg-black text-white hover:bg-gray-900 disabled:opacity-50"
+                disabled={isBusy}
+              >
+                Update preview
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            {preview.title && <h3 className="text-base sm:text-lg font-semibold mb-2">{preview.title}</h3>}
+            {preview.html && (
+              <div
+                className="prose prose-sm max-w-none break-words bg-white rounded-lg border border-gray-200 p-3"
+                dangerouslySetInnerHTML={{ __html: sanitizeHtml(preview.html) }}
+              />
+            )}
+            {preview.duplicates && preview.duplicates.length > 0 && (
+              <div className="mt-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                <div className="font-medium mb-1">
+                  {preview.allow_duplicate ? 'Creating anyway, although similar posts exist:' : 'Similar posts already exist:'}
+                </div>
+                <ul className="list-disc pl-5 space-y-0.5">
+                  {preview.duplicates.map(duplicate => (
+                    <li key={duplicate.id ?? duplicate.title}>
+                      {duplicate.link ? (
+                        <a href={duplicate.link} target="_blank" rel="noopener noreferrer" className="underline">{duplicate.title}</a>
+                      ) : duplicate.title}
+                      <span className="opacity-60"> · {Math.round(duplicate.similarity * 100)}% match</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {preview.description_diff && preview.description_diff.some(line => line.type !== 'same') && (
+              <details className="mt-2 text-sm" open>
+                <summary className="cursor-pointer text-amber-800">Changes to the body</summary>
+                <div className="mt-2 bg-white rounded-lg border border-gray-200 py-2 font-mono text-xs overflow-x-auto">
+                  {collapseDiff(preview.description_diff).map((row, index) => (
+                    row.type === 'skipped' ? (
+                      <div key={index} className="px-3 text-gray-400 italic">… {row.count} unchanged line{row.count === 1 ? '' : 's'}</div>
+                    ) : (
+                      <div key={index} className={`px-3 whitespace-pre-wrap break-words ${DIFF_ROW_STYLES[row.type]}`}>
+                        <span className="select-none opacity-60">{DIFF_ROW_MARKERS[row.type]} </span>{row.text || ' '}
+                      </div>
+                    )
+                  ))}
+                </div>
+              </details>
+            )}
+            {(preview.current_title || preview.current_description) && (
+              <details className="mt-2 text-sm">
+                <summary className="cursor-pointer text-amber-800">Current version</summary>
+                <div className="mt-2 bg-white rounded-lg border border-gray-200 p-3 text-gray-600">
+                  {preview.current_title && <div className="font-semibold mb-1">{preview.current_title}</div>}
+                  {preview.current_description && (
+                    <div className="whitespace-pre-wrap break-words font-mono text-xs">{preview.current_description}</div>
+                  )}
+                </div>
+              </details>
+            )}
+            <div className="mt-3 flex flex-wrap gap-2 justify-end">
+              <button
+                type="button"
+                onClick={() => resolve('reject')}
+                className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+                disabled={isBusy}
+              >
+                Reject
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsEditing(true)}
+                className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+                disabled={isBusy}
+              >
+                Edit
+              </button>
+              {blockedByDuplicates ? (
+                <button
+                  type="button"
+                  onClick={() => resolve('edit', { allow_duplicate: true })}
+                  className="px-3 py-1.5 text-sm rounded-lg bg-red-700 text-white hover:bg-red-800 disabled:opacity-50"
+                  disabled={isBusy}
+                  title="Preview it again as a new post despite the similar ones"
+                >
+                  {isBusy ? 'Working...' : 'Create anyway'}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => resolve('approve')}
+                  className="px-3 py-1.5 text-sm rounded-lg bg-black text-white hover:bg-gray-900 disabled:opacity-50"
+                  disabled={isBusy}
+                >
+                  {isBusy ? 'Working...' : 'Approve'}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
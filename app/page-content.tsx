@@ -7,6 +7,8 @@ import ChatSidebar, { ChatSidebarRef } from './components/ChatSidebar';
 
 export default function PageContent() {
   const [currentConversationId, setCurrentConversationId] = useState<string | undefined>();
+  // Message a search result pointed at; `requestedAt` lets the same result be opened twice
+  const [focusMessage, setFocusMessage] = useState<{ id: string; requestedAt: number } | undefined>();
   const [userId, setUserId] = useState<string | null>(null);
   const [sidebarLockedOff, setSidebarLockedOff] = useState<boolean>(false);
   const [showSidebar, setShowSidebar] = useState<boolean>(false);
@@ -73,10 +75,12 @@ export default function PageContent() {
 
   const handleNewChat = () => {
     setCurrentConversationId(undefined);
+    setFocusMessage(undefined);
   };
 
-  const handleSelectChat = (conversationId: string) => {
+  const handleSelectChat = (conversationId: string, messageId?: string) => {
     setCurrentConversationId(conversationId);
+    setFocusMessage(messageId ? { id: messageId, requestedAt: Date.now() } : undefined);
   };
 
   const handleConversationChange = (conversationId: string, title: string, lastMessage: string) => {
@@ -95,6 +99,7 @@ export default function PageContent() {
       <div className="h-screen w-full bg-gray-50">
         <Chat
           conversationId={currentConversationId}
+          focusMessage={focusMessage}
           onConversationChange={handleConversationChange}
           noBorder={false}
           userId={userId}
@@ -130,7 +135,7 @@ export default function PageContent() {
             <ChatSidebar
               ref={sidebarRef}
               onNewChat={() => { setShowSidebar(false); handleNewChat(); }}
-              onSelectChat={(id) => { setShowSidebar(false); handleSelectChat(id); }}
+              onSelectChat={(id, messageId) => { setShowSidebar(false); handleSelectChat(id, messageId); }}
               currentConversationId={currentConversationId}
               userId={userId}
             />
@@ -178,6 +183,7 @@ export default function PageContent() {
         <div className="flex-1 p-2 sm:p-3 md:p-6 min-h-0">
           <Chat
             conversationId={currentConversationId}
+            focusMessage={focusMessage}
             onConversationChange={handleConversationChange}
             userId={userId}
           />
@@ -16,6 +16,50 @@ export interface Message {
   }>;
   tool_call_id?: string;
   name?: string;
+  // Set on the assistant message recorded for a turn the user stopped
+  cancelled?: boolean;
+  // Node id in the conversation tree; set on messages the server hands to the client
+  id?: string;
+  // Position among alternative versions of this message (edits or regenerations), when there are any
+  branch?: BranchInfo;
+  // When the server received (user) or produced (assistant) the message, ISO 8601
+  createdAt?: string;
+  // How an assistant reply was produced
+  metadata?: MessageMetadata;
+}
+
+export interface MessageMetadata {
+  // The model that wrote the reply, after any failover
+  model?: string;
+  // Summed over the model rounds of the turn
+  usage?: MessageUsage;
+  // From receiving the turn to the final reply
+  latencyMs?: number;
+  tools?: ToolCallSummary[];
+}
+
+export interface MessageUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// One tool call made while producing a reply
+export interface ToolCallSummary {
+  name: string;
+  // The JSON arguments the model passed
+  arguments?: string;
+  ok: boolean;
+  durationMs: number;
+  // Answered from an identical call earlier in the same round
+  cached?: boolean;
+}
+
+export interface BranchInfo {
+  // Zero-based position of this version among its siblings
+  index: number;
+  count: number;
+  siblingIds: string[];
 }
 
 export interface ChatFunction {
@@ -37,4 +81,137 @@ export interface ChatResponse {
     message: Message;
     finish_reason: string;
   }[];
-}
\ No newline at end of file
+}
+
+// A previewed write waiting for the user to approve, edit or reject it
+export interface PendingAction {
+  ticketId: string;
+  tool: string;
+  preview: {
+    title?: string;
+    content_type?: string;
+    description?: string;
+    html?: string;
+    plain_text?: string;
+    parent_id?: string;
+    content_id?: string;
+    // Edits only: the post as it is stored now
+    current_title?: string;
+    current_description?: string;
+    // Edits only: the current body against the new one, line by line, both as markdown
+    description_diff?: DiffLine[];
+    // Creates only: existing posts that look like this one, and whether the user chose to create it anyway
+    duplicates?: DuplicateCandidate[];
+    allow_duplicate?: boolean;
+  };
+  expiresAt: string;
+}
+
+// One line of a before/after diff
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// An existing post whose title closely matches one about to be created
+export interface DuplicateCandidate {
+  title: string;
+  id?: string;
+  link?: string;
+  // 0..1, 1 for the same normalized title
+  similarity: number;
+}
+
+// A user's token quota as kept by the Needpedia API
+export interface TokenBalance {
+  remaining: number;
+  // Allowance the remaining balance is measured against, when the backend reports one
+  total?: number;
+}
+
+// Detail of the `np_tokens_used` window event; `remaining` is set when the server knows the balance
+export interface TokenUsageEventDetail {
+  used: number;
+  remaining?: number;
+  total?: number;
+}
+
+// Events sent by /api/chat when the client asks for a streamed response
+export type ChatStreamEvent =
+  | { type: 'start'; conversationId: string }
+  | { type: 'delta'; content: string }
+  | { type: 'tool_start'; id: string; name: string }
+  | { type: 'tool_end'; id: string; name: string; ok: boolean }
+  | { type: 'done'; conversationId: string; choices: Array<{ message: Message }>; usedTokens: number; model: string; pendingActions: PendingAction[]; balance: TokenBalance | null; messages: Message[]; title?: string }
+  // After `done`, when the turn gave the conversation a new title
+  | { type: 'title'; conversationId: string; title: string }
+  | { type: 'error'; error: string; status?: number; code?: string };
+
+// Something the conversation settled on that must survive trimming, e.g. the subject picked for a new idea
+export interface SummaryFact {
+  id: string;
+  title?: string;
+  type?: string;
+  link?: string;
+  // How the conversation used this post, e.g. "parent of the draft"
+  note?: string;
+  // Message the fact was last collected from; other branches of the conversation do not see it
+  sourceId?: string;
+}
+
+// Rolling summary of the turns that no longer fit in the model's context window
+export interface ConversationSummary {
+  text: string;
+  facts: SummaryFact[];
+  // Fingerprint of the last message folded into `text`
+  coveredUntil?: string;
+  // ID of that message; `text` only applies to branches running through it
+  coveredMessageId?: string;
+  updatedAt: string;
+}
+
+// The best-matching message of one conversation in a full-text search
+export interface ConversationSearchResult {
+  conversationId: string;
+  // The conversation's opening question, shortened
+  title: string;
+  messageId?: string;
+  role: Message['role'];
+  createdAt?: string;
+  // Excerpt of the message around the match; `highlights` are [start, end) offsets into it
+  snippet: string;
+  highlights: Array<[number, number]>;
+  // How many messages in the conversation match
+  matches: number;
+}
+
+// What the user chose for a conversation from the sidebar
+export interface ChatThreadSettings {
+  // Set when the user renamed the conversation; replaces the title taken from its messages
+  title?: string;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+// A conversation as the sidebar lists it
+export interface ChatThread {
+  id: string;
+  title: string;
+  lastMessage: string;
+  updatedAt: string;
+  pinned: boolean;
+  archived: boolean;
+  // The title was chosen by the user rather than taken from the conversation
+  renamed: boolean;
+}
+
+// A title the server wrote for a conversation from its messages
+export interface ConversationTitle {
+  text: string;
+  // Last message covered when the topic was last checked
+  checkedUntil?: string;
+  // Words the title was based on; new messages sharing few of them suggest a change of topic
+  keywords: string[];
+  model?: string;
+  updatedAt: string;
+}
@@ -4,5 +4,21 @@ declare namespace NodeJS {
     OPENROUTER_MODEL: string; // The model to use for the chat
     NEXT_PUBLIC_API_BASE_URL?: string;
     POST_TOKEN?: string;
+    LLM_PROVIDER?: 'openrouter' | 'openai-compatible' | 'mock';
+    LLM_BASE_URL?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+    LLM_API_KEY?: string;
+    LLM_MODEL?: string;
+    LLM_TIMEOUT_MS?: string;
+    LLM_MOCK_SCRIPT?: string; // Path to a JSON mock script; the built-in script is used when unset
+    LLM_MOCK_DELAY_MS?: string; // Delay between streamed words of the mock provider
+    LLM_MODELS?: string; // Ordered fallback chain: comma-separated model IDs or a JSON array of model configs
+    LLM_MODEL_RETRIES?: string;
+    LLM_RETRY_BACKOFF_MS?: string;
+    CONFIRMATION_TTL_MS?: string; // Lifetime of create/edit confirmation tickets
+    CHAT_CONTEXT_TOKENS?: string; // Estimated prompt token budget before older turns are summarized
+    CHAT_MAX_CONTEXT?: string; // Optional cap on history messages sent per request
+    TOKEN_BALANCE_TTL_MS?: string; // How long a user's token balance is cached before refetching
+    OUTBOX_MAX_ATTEMPTS?: string; // Delivery attempts before an outbox entry is marked dead
+    OUTBOX_BACKOFF_MS?: string; // Base delay of the outbox's exponential backoff
   }
-}
\ No newline at end of file
+}
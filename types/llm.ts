@@ -0,0 +1,44 @@
+import { Message } from '@/types/chat';
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface UsageMetrics {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  total?: number;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: Message[];
+  tools?: ToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+  // Upper bound on generated tokens, e.g. the user's remaining quota
+  maxTokens?: number;
+}
+
+export interface CompletionOptions {
+  // Receives assistant text as it is generated; providers stream when this is set
+  onDelta?: (content: string) => void;
+  // Aborts the upstream request when the user cancels the turn
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  message: Message;
+  usage?: UsageMetrics;
+}
+
+export interface LLMProvider {
+  name: string;
+  defaultModel: string;
+  complete(request: CompletionRequest, options?: CompletionOptions): Promise<CompletionResult>;
+}
@@ -0,0 +1,31 @@
+import { ChatThreadSettings, ConversationSummary, ConversationTitle, Message } from '@/types/chat';
+import { SerializedConversationTree } from '@/utils/conversationTree';
+
+export interface StoredConversation {
+  conversationId: string;
+  // The active branch, kept flat for readers that do not know about branches
+  messages: Message[];
+  // Every branch of the conversation; absent in records written before branching existed
+  tree?: SerializedConversationTree;
+  // Rolling summary of turns trimmed from the model context
+  summary?: ConversationSummary;
+  // Title, pin and archive choices made from the sidebar
+  settings?: ChatThreadSettings;
+  // Title generated from the messages
+  title?: ConversationTitle;
+  // SHA-256 of the user token that started the conversation; absent for threads started elsewhere or earlier
+  owner?: string;
+  updatedAt: string;
+}
+
+// Where conversations live between turns (CHAT_STORE). The in-process cache in utils/memory.ts reads
+// through it on a miss and writes through it after every change.
+export interface ConversationStore {
+  readonly name: string;
+  // null when the store has no such conversation
+  load(conversationId: string): Promise<StoredConversation | null>;
+  // Replaces whatever the store holds for the conversation; throws on failure so the outbox retries
+  save(conversation: StoredConversation): Promise<void>;
+  // Deleting a conversation the store does not have is not an error
+  delete(conversationId: string): Promise<void>;
+}
@@ -0,0 +1,55 @@
+import { ConfirmationTicket } from '@/utils/confirmationTickets';
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  minProperties?: number;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean>;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+// Read tools only fetch data; write tools change Needpedia content
+export type ToolSideEffect = 'read' | 'write';
+
+export interface ToolContext {
+  conversationId: string;
+  userToken?: string;
+  // Set when the turn was cancelled; handlers pass it to their fetches
+  signal?: AbortSignal;
+  // Preview a create despite likely duplicates; only the preview card's "create anyway" sets this
+  allowDuplicate?: boolean;
+  // The approved ticket a confirmed write runs under, set by the registry
+  ticket?: ConfirmationTicket;
+}
+
+export interface ToolSpec<Args, Result> {
+  name: string;
+  description: string;
+  parameters: JsonSchema & { type: 'object' };
+  sideEffect: ToolSideEffect;
+  handler: (args: Args, context: ToolContext) => Promise<Result>;
+}
+
+// Outcome of one tool call as fed back to the model
+export type ToolExecution =
+  | { ok: true; name: string; result: unknown }
+  | { ok: false; name: string; result: ToolErrorResult };
+
+export interface ToolErrorResult {
+  error: string;
+  message: string;
+  issues?: SchemaIssue[];
+  instructions?: string;
+}
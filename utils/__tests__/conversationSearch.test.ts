@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Message } from '@/types/chat';
+import { conversationSearchIndex, toSearchTerms } from '@/utils/conversationSearch';
+
+const conversation = (...contents: string[]): Message[] => contents.map((content, index) => ({
+  id: `m${index}`,
+  role: index % 2 === 0 ? 'user' : 'assistant',
+  content
+}));
+
+describe('toSearchTerms', () => {
+  it('folds case and accents and drops repeated words', () => {
+    expect(toSearchTerms('Café  cafe, BIKE-lanes')).toEqual(['cafe', 'bike', 'lanes']);
+  });
+});
+
+describe('conversationSearchIndex', () => {
+  it('finds word prefixes and points at the best message', () => {
+    conversationSearchIndex.add('owner-a', 'c1', conversation('Where are bike lanes planned?', 'Bike lanes are planned downtown.'));
+    const { results, searched } = conversationSearchIndex.search('owner-a', ['c1'], 'bike lan');
+    expect(searched).toBe(1);
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ conversationId: 'c1', title: 'Where are bike lanes planned?', matches: 2, messageId: 'm1' });
+    expect(results[0].highlights).toEqual([[0, 4], [5, 8]]);
+  });
+
+  it('keeps each owner to their own conversations', () => {
+    conversationSearchIndex.add('owner-a', 'c2', conversation('Clean water for the village'));
+    expect(conversationSearchIndex.search('owner-b', ['c2'], 'water').results).toEqual([]);
+    expect(conversationSearchIndex.covers('owner-b', 'c2')).toBe(false);
+    expect(conversationSearchIndex.covers('owner-a', 'c2')).toBe(true);
+  });
+
+  it('refreshes indexed owners on save and ignores owners who never searched', () => {
+    conversationSearchIndex.add('owner-a', 'c3', conversation('Solar panels'));
+    conversationSearchIndex.update('owner-a', 'c3', conversation('Solar panels', 'Community gardens instead'));
+    expect(conversationSearchIndex.search('owner-a', ['c3'], 'gardens').results).toHaveLength(1);
+
+    conversationSearchIndex.update('owner-c', 'c4', conversation('Gardens'));
+    expect(conversationSearchIndex.covers('owner-c', 'c4')).toBe(false);
+  });
+
+  it('forgets deleted conversations and searches only the listed ones', () => {
+    conversationSearchIndex.add('owner-a', 'c5', conversation('Library opening hours'));
+    expect(conversationSearchIndex.search('owner-a', ['c1'], 'library').results).toEqual([]);
+    conversationSearchIndex.remove('c5');
+    expect(conversationSearchIndex.covers('owner-a', 'c5')).toBe(false);
+    expect(conversationSearchIndex.search('owner-a', ['c5'], 'library').searched).toBe(0);
+  });
+
+  it('does not read an unavailable conversation again right away', () => {
+    conversationSearchIndex.markUnavailable('owner-d', 'c6');
+    expect(conversationSearchIndex.covers('owner-d', 'c6')).toBe(true);
+    expect(conversationSearchIndex.search('owner-d', ['c6'], 'anything').searched).toBe(0);
+  });
+});
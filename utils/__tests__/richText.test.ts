@@ -0,0 +1,69 @@
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { htmlToMarkdown, htmlToPlainText, toRichHtml } from '@/utils/richText';
+
+// Each `<name>.md` fixture is rendered and compared with `<name>.html` (sanitized HTML) and `<name>.txt`
+// (plain text). Regenerate an expectation only after checking the new output by hand.
+
+const FIXTURES = join(__dirname, 'fixtures', 'richText');
+// Sanitizing drops links and attributes here, so HTML -> markdown -> HTML cannot give the same HTML back
+const NOT_ROUND_TRIPPED = new Set(['unsafe']);
+
+const read = (name: string, extension: string): string => readFileSync(join(FIXTURES, `${name}.${extension}`), 'utf-8');
+
+// Soft line breaks inside paragraphs come back as spaces; both render the same
+const normalizeWhitespace = (html: string): string => html.replace(/\s+/g, ' ').replace(/> </g, '><').trim();
+
+const cases = readdirSync(FIXTURES)
+  .filter(file => file.endsWith('.md'))
+  .map(file => file.slice(0, -'.md'.length));
+
+describe.each(cases)('%s', name => {
+  const html = toRichHtml(read(name, 'md'));
+
+  it('renders markdown to sanitized HTML', () => {
+    expect(html).toBe(read(name, 'html').trimEnd());
+  });
+
+  it('renders the HTML as plain text', () => {
+    expect(htmlToPlainText(html)).toBe(read(name, 'txt').trimEnd());
+  });
+
+  it.skipIf(NOT_ROUND_TRIPPED.has(name))('round-trips through markdown', () => {
+    expect(normalizeWhitespace(toRichHtml(htmlToMarkdown(html)))).toBe(normalizeWhitespace(html));
+  });
+
+  it('is stable after one round trip', () => {
+    const once = toRichHtml(htmlToMarkdown(html));
+    expect(toRichHtml(htmlToMarkdown(once))).toBe(once);
+  });
+});
+
+describe('htmlToPlainText', () => {
+  it('indents later paragraphs of a loose list item under its text', () => {
+    const html = '<ul><li><p>First</p><p>More about it</p></li><li><p>Second</p></li></ul>';
+    expect(htmlToPlainText(html)).toBe('- First\n  More about it\n- Second');
+  });
+
+  it('keeps text after a nested list inside its item', () => {
+    const html = '<ol start="9"><li>Nine<ul><li>inner</li></ul>after</li><li>Ten</li></ol>';
+    expect(htmlToPlainText(html)).toBe('9. Nine\n   - inner\n   after\n10. Ten');
+  });
+
+  it('indents lines after a break inside an item', () => {
+    expect(htmlToPlainText('<ul><li>one<br>two</li></ul>')).toBe('- one\n  two');
+  });
+});
+
+describe('toRichHtml', () => {
+  it('keeps a hard break on the first line of a paragraph', () => {
+    expect(toRichHtml('one  \ntwo')).toBe('<p>one<br>\ntwo</p>');
+  });
+
+  it('ends a bare URL before a closing parenthesis it did not open', () => {
+    expect(toRichHtml('(see https://needpedia.org/a_(b))')).toBe(
+      '<p>(see <a href="https://needpedia.org/a_(b)" target="_blank" rel="noopener noreferrer">https://needpedia.org/a_(b)</a>)</p>'
+    );
+  });
+});
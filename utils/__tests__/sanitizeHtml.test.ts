@@ -0,0 +1,30 @@
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from '@/utils/sanitizeHtml';
+
+// Each `<name>.input.html` fixture is sanitized and compared with `<name>.html`
+
+const FIXTURES = join(__dirname, 'fixtures', 'sanitizeHtml');
+
+const cases = readdirSync(FIXTURES)
+  .filter(file => file.endsWith('.input.html'))
+  .map(file => file.slice(0, -'.input.html'.length));
+
+describe('sanitizeHtml', () => {
+  it.each(cases)('%s', name => {
+    const input = readFileSync(join(FIXTURES, `${name}.input.html`), 'utf-8');
+    expect(sanitizeHtml(input)).toBe(readFileSync(join(FIXTURES, `${name}.html`), 'utf-8'));
+  });
+
+  it('is idempotent', () => {
+    cases.forEach(name => {
+      const once = sanitizeHtml(readFileSync(join(FIXTURES, `${name}.input.html`), 'utf-8'));
+      expect(sanitizeHtml(once)).toBe(once);
+    });
+  });
+
+  it('drops everything after an unclosed script', () => {
+    expect(sanitizeHtml('<p>ok</p><script>alert(1)<p>still script</p>')).toBe('<p>ok</p>');
+  });
+});
@@ -0,0 +1,65 @@
+// Cancellation of a chat turn once the user presses Stop or the request goes away
+
+// Appended to whatever part of the answer had arrived when the turn was stopped
+export const CANCELLED_NOTE = '_Stopped by the user before the answer was finished._';
+
+export class TurnCancelledError extends Error {
+  constructor(message = 'The response was stopped.') {
+    super(message);
+    this.name = 'TurnCancelledError';
+  }
+}
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new TurnCancelledError();
+};
+
+// True for our own cancellation error and for the errors fetch and axios raise on abort
+export const isAbortError = (error: unknown, signal?: AbortSignal): boolean => {
+  if (error instanceof TurnCancelledError) return true;
+  if (!signal?.aborted) return false;
+  const name = error instanceof Error ? error.name : '';
+  return name === 'AbortError' || name === 'CanceledError';
+};
+
+// setTimeout that resolves early, and rejects, when the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TurnCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TurnCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Turns in progress by conversation, so the history read that follows a Stop can wait for the stopped turn
+// to be recorded instead of racing it. Each keeps the owner hash of the user who started it.
+const runningTurns = new Map<string, { settled: Promise<unknown>; owner: string }>();
+
+export const trackTurn = <T>(conversationId: string, owner: string, turn: Promise<T>): Promise<T> => {
+  const settled = turn.catch(() => undefined);
+  runningTurns.set(conversationId, { settled, owner });
+  void settled.then(() => {
+    if (runningTurns.get(conversationId)?.settled === settled) runningTurns.delete(conversationId);
+  });
+  return turn;
+};
+
+// Resolves once the conversation's running turn has ended, or after `maxWaitMs`. Only the user who started
+// the turn waits for it; anyone else gets no hold on another user's conversation.
+export const waitForTurn = async (conversationId: string, owner: string, maxWaitMs: number): Promise<void> => {
+  const turn = runningTurns.get(conversationId);
+  if (!turn || turn.owner !== owner) return;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([turn.settled, new Promise(resolve => { timer = setTimeout(resolve, maxWaitMs); })]);
+  clearTimeout(timer);
+};
@@ -0,0 +1,169 @@
+import { ChatThread, ChatThreadSettings, ConversationTitle, Message } from '@/types/chat';
+import { conversationStore } from '@/utils/memory';
+import { getBackendThreads } from '@/utils/conversationHistory';
+import { listUserThreadIds, openConversation, ownerOf } from '@/utils/conversationAccess';
+import { enqueueConversationSnapshot, enqueueThreadDeletion, enqueueThreadSettings, outbox } from '@/utils/outbox';
+import { confirmationTickets } from '@/utils/confirmationTickets';
+
+// The sidebar's view of a user's conversations: backend thread metadata merged with what this server
+// holds, and the rename, pin, archive and delete actions that change it.
+
+const MAX_TITLE_LENGTH = 120;
+// Conversations listed per request
+const MAX_THREADS = 500;
+
+export class ChatThreadError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(message: string, status = 400, code = 'invalid_thread_update') {
+    super(message);
+    this.name = 'ChatThreadError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface ChatThreadChanges {
+  // null or an empty string goes back to the title taken from the conversation
+  title?: string | null;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+const previewText = (text: string, maxLength: number): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > maxLength ? `${flat.slice(0, maxLength)}...` : flat;
+};
+
+// Conversations deleted here whose removal may not have reached the backend's thread list yet
+export const deletedThreadIds = async (): Promise<Set<string>> => {
+  const entries = await outbox.list();
+  return new Set(entries.filter(entry => entry.kind === 'chat_thread_delete').map(entry => String(entry.payload.thread_id)));
+};
+
+const latestTimestamp = (...values: Array<string | undefined>): string | undefined => {
+  const times = values.map(value => (value ? Date.parse(value) : NaN)).filter(time => !Number.isNaN(time));
+  return times.length > 0 ? new Date(Math.max(...times)).toISOString() : undefined;
+};
+
+interface LocalConversation {
+  messages?: Message[];
+  settings?: ChatThreadSettings;
+  title?: ConversationTitle;
+  owner?: string;
+  updatedAt?: string;
+}
+
+// What this server holds for a conversation, without loading it into the cache. Threads only the
+// backend has messages for can still carry choices made here.
+const readLocalConversation = async (conversationId: string): Promise<LocalConversation | undefined> => {
+  const stored = await conversationStore.read(conversationId);
+  if (!stored) return undefined;
+  return { messages: stored.messages, settings: stored.settings, title: stored.title, owner: stored.owner, updatedAt: stored.updatedAt };
+};
+
+const describeThread = (
+  conversationId: string,
+  local: LocalConversation | undefined,
+  backend: Partial<Omit<ChatThread, 'id' | 'renamed'>> = {}
+): ChatThread => {
+  const messages = (local?.messages ?? []).filter(m => m.role === 'user' || m.role === 'assistant');
+  const settings = local?.settings ?? {};
+  const latestUser = [...messages].reverse().find(m => m.role === 'user');
+  const latestAssistant = [...messages].reverse().find(m => m.role === 'assistant');
+  return {
+    id: conversationId,
+    title: settings.title || local?.title?.text || backend.title || (latestUser ? previewText(latestUser.content, 50) : '') || `Conversation ${conversationId.substring(0, 8)}...`,
+    lastMessage: backend.lastMessage || (latestAssistant ? previewText(latestAssistant.content, 160) : ''),
+    updatedAt: latestTimestamp(backend.updatedAt, messages[messages.length - 1]?.createdAt, local?.updatedAt) ?? new Date(0).toISOString(),
+    pinned: settings.pinned ?? backend.pinned ?? false,
+    archived: settings.archived ?? backend.archived ?? false,
+    renamed: Boolean(settings.title)
+  };
+};
+
+// Pinned conversations first, then the most recently active
+const byRecency = (a: ChatThread, b: ChatThread): number =>
+  Number(b.pinned) - Number(a.pinned) || b.updatedAt.localeCompare(a.updatedAt);
+
+// The user's conversations: the backend's threads plus the ones the browser knows about. Local
+// choices win over the backend's copy, which may still be waiting for them in the outbox.
+export const listChatThreads = async (userToken: string, knownIds: string[] = []): Promise<ChatThread[]> => {
+  const [backendThreads, deleted] = await Promise.all([getBackendThreads(userToken), deletedThreadIds()]);
+  const backendById = new Map((backendThreads ?? []).map(thread => [thread.id, thread]));
+  // Without a fresh list from the backend, the last one it gave still says which threads are the user's
+  const listed = backendThreads ? new Set(backendById.keys()) : new Set(await listUserThreadIds(userToken));
+  const owner = ownerOf(userToken);
+  const ids = Array.from(new Set([...backendById.keys(), ...knownIds]))
+    .filter(id => !deleted.has(id))
+    .slice(0, MAX_THREADS);
+
+  const threads: ChatThread[] = [];
+  for (const id of ids) {
+    const local = await readLocalConversation(id);
+    // Only the user's own conversations are listed, whatever IDs the browser sends
+    if (local?.owner ? local.owner !== owner : !listed.has(id)) continue;
+    threads.push(describeThread(id, local, backendById.get(id)));
+  }
+  return threads.sort(byRecency);
+};
+
+const normalizeChanges = (changes: ChatThreadChanges): ChatThreadChanges => {
+  const normalized: ChatThreadChanges = {};
+  if (changes.title !== undefined) {
+    if (changes.title !== null && typeof changes.title !== 'string') {
+      throw new ChatThreadError('title must be a string');
+    }
+    const title = (changes.title ?? '').replace(/\s+/g, ' ').trim();
+    if (title.length > MAX_TITLE_LENGTH) {
+      throw new ChatThreadError(`Titles are limited to ${MAX_TITLE_LENGTH} characters`);
+    }
+    normalized.title = title || null;
+  }
+  for (const flag of ['pinned', 'archived'] as const) {
+    if (changes[flag] === undefined) continue;
+    if (typeof changes[flag] !== 'boolean') throw new ChatThreadError(`${flag} must be true or false`);
+    normalized[flag] = changes[flag];
+  }
+  if (Object.keys(normalized).length === 0) {
+    throw new ChatThreadError('Provide a title, pinned or archived');
+  }
+  return normalized;
+};
+
+// Rename, pin or archive a conversation here and on the backend
+export const updateChatThread = async (conversationId: string, userToken: string, changes: ChatThreadChanges): Promise<ChatThread> => {
+  const normalized = normalizeChanges(changes);
+  // Loaded into the cache so the snapshot written below carries the messages along with the new settings
+  await openConversation(conversationId, userToken);
+
+  const settings: ChatThreadSettings = { ...conversationStore.getSettings(conversationId) };
+  if (normalized.title !== undefined) {
+    if (normalized.title) settings.title = normalized.title;
+    else delete settings.title;
+  }
+  if (normalized.pinned !== undefined) settings.pinned = normalized.pinned;
+  if (normalized.archived !== undefined) settings.archived = normalized.archived;
+  conversationStore.setSettings(conversationId, settings);
+
+  enqueueConversationSnapshot(conversationId).catch(() => {});
+  const thread = describeThread(conversationId, await readLocalConversation(conversationId));
+  // Dropping a custom title puts the generated title or the latest question back, as the next turn would
+  const latestQuestion = [...(conversationStore.get(conversationId) ?? [])].reverse().find(m => m.role === 'user')?.content;
+  const automaticTitle = conversationStore.getTitle(conversationId)?.text || (latestQuestion ? previewText(latestQuestion, 80) : undefined);
+  await enqueueThreadSettings(conversationId, userToken, {
+    ...settings,
+    ...(normalized.title === null && automaticTitle ? { title: automaticTitle } : {})
+  });
+  return thread;
+};
+
+// Remove a conversation from the cache, the conversation store and the backend, along with any preview still awaiting a decision
+export const deleteChatThread = async (conversationId: string, userToken: string): Promise<void> => {
+  await openConversation(conversationId, userToken);
+  [...confirmationTickets.pending(conversationId, userToken), ...confirmationTickets.approved(conversationId, userToken)]
+    .forEach(ticket => confirmationTickets.discard(ticket.id));
+  await conversationStore.delete(conversationId);
+  await enqueueThreadDeletion(conversationId, userToken);
+};
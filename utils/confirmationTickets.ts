@@ -0,0 +1,188 @@
+import { createHash, randomUUID } from 'crypto';
+
+// Server-side confirmation tickets for write tools.
+// A preview issues a ticket bound to the conversation, the user token and the exact arguments;
+// the write only runs once the user has approved that ticket in the same conversation.
+
+const TICKET_TTL_MS = Number(process.env.CONFIRMATION_TTL_MS || 15 * 60_000);
+
+export interface ConfirmationTicket {
+  id: string;
+  conversationId: string;
+  userTokenHash: string;
+  tool: string;
+  // Arguments as previewed, without `confirm`/`confirmation_ticket`
+  args: Record<string, unknown>;
+  argsHash: string;
+  // What the user was shown for this ticket
+  preview?: Record<string, unknown>;
+  // Why the preview cannot be approved as shown, e.g. it found likely duplicates
+  blockedReason?: string;
+  createdAt: number;
+  expiresAt: number;
+  approvedAt?: number;
+  // The user message that approved the ticket
+  approval?: string;
+  consumedAt?: number;
+}
+
+export type TicketRejection =
+  | 'confirmation_missing'
+  | 'confirmation_invalid'
+  | 'confirmation_expired'
+  | 'confirmation_mismatch'
+  | 'confirmation_not_approved'
+  | 'confirmation_used';
+
+const CONTROL_KEYS = new Set(['confirm', 'confirmation_ticket']);
+
+const hashValue = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+// JSON with sorted keys so logically equal arguments hash the same
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const stripConfirmationArgs = (args: Record<string, unknown>): Record<string, unknown> => {
+  return Object.fromEntries(Object.entries(args).filter(([key]) => !CONTROL_KEYS.has(key)));
+};
+
+const hashArgs = (tool: string, args: Record<string, unknown>): string => {
+  return hashValue(`${tool}|${stableStringify(stripConfirmationArgs(args))}`);
+};
+
+// Short replies that clearly approve the preview that was just shown
+const APPROVAL_PATTERN = /^\s*(yes|yep|yeah|y|ok|okay|sure|confirm(ed)?|approve(d)?|go ahead|publish( it)?|do it|looks good|lgtm)\b[\s.!]*$/i;
+
+export const isApprovalMessage = (text: string): boolean => APPROVAL_PATTERN.test(text || '');
+
+class ConfirmationTicketStore {
+  private tickets: Map<string, ConfirmationTicket> = new Map();
+
+  issue(
+    conversationId: string,
+    userToken: string,
+    tool: string,
+    args: Record<string, unknown>,
+    preview?: Record<string, unknown>,
+    blockedReason?: string
+  ): ConfirmationTicket {
+    this.prune();
+    const now = Date.now();
+    const ticket: ConfirmationTicket = {
+      id: randomUUID(),
+      conversationId,
+      userTokenHash: hashValue(userToken),
+      tool,
+      args: stripConfirmationArgs(args),
+      argsHash: hashArgs(tool, args),
+      preview,
+      ...(blockedReason ? { blockedReason } : {}),
+      createdAt: now,
+      expiresAt: now + TICKET_TTL_MS,
+    };
+    this.tickets.set(ticket.id, ticket);
+    return ticket;
+  }
+
+  get(ticketId: string): ConfirmationTicket | undefined {
+    return this.tickets.get(ticketId);
+  }
+
+  // Unapproved, unexpired tickets awaiting the user in a conversation
+  pending(conversationId: string, userToken: string): ConfirmationTicket[] {
+    const now = Date.now();
+    const userTokenHash = hashValue(userToken);
+    return Array.from(this.tickets.values()).filter(ticket =>
+      ticket.conversationId === conversationId &&
+      ticket.userTokenHash === userTokenHash &&
+      !ticket.approvedAt &&
+      !ticket.consumedAt &&
+      ticket.expiresAt > now
+    );
+  }
+
+  // The preview shown last, which a chat reply like "yes" refers to
+  latestPending(conversationId: string, userToken: string): ConfirmationTicket | undefined {
+    return this.pending(conversationId, userToken).sort((a, b) => a.createdAt - b.createdAt).pop();
+  }
+
+  // Approved tickets that have not been used yet
+  approved(conversationId: string, userToken: string): ConfirmationTicket[] {
+    const now = Date.now();
+    const userTokenHash = hashValue(userToken);
+    return Array.from(this.tickets.values()).filter(ticket =>
+      ticket.conversationId === conversationId &&
+      ticket.userTokenHash === userTokenHash &&
+      ticket.approvedAt &&
+      !ticket.consumedAt &&
+      ticket.expiresAt > now
+    );
+  }
+
+  approve(ticketId: string, approval: string): ConfirmationTicket | undefined {
+    const ticket = this.tickets.get(ticketId);
+    if (!ticket || ticket.consumedAt || ticket.blockedReason || ticket.expiresAt <= Date.now()) return undefined;
+    ticket.approvedAt = Date.now();
+    ticket.approval = approval;
+    return ticket;
+  }
+
+  // Check a write call against its ticket and consume the ticket when it is valid
+  redeem(
+    ticketId: string | undefined,
+    conversationId: string,
+    userToken: string,
+    tool: string,
+    args: Record<string, unknown>
+  ): { ok: true; ticket: ConfirmationTicket } | { ok: false; reason: TicketRejection } {
+    if (!ticketId) return { ok: false, reason: 'confirmation_missing' };
+    const ticket = this.tickets.get(ticketId);
+    if (!ticket) return { ok: false, reason: 'confirmation_invalid' };
+    if (ticket.conversationId !== conversationId || ticket.userTokenHash !== hashValue(userToken) || ticket.tool !== tool) {
+      return { ok: false, reason: 'confirmation_invalid' };
+    }
+    if (ticket.consumedAt) return { ok: false, reason: 'confirmation_used' };
+    if (ticket.expiresAt <= Date.now()) return { ok: false, reason: 'confirmation_expired' };
+    if (ticket.argsHash !== hashArgs(tool, args)) return { ok: false, reason: 'confirmation_mismatch' };
+    if (!ticket.approvedAt) return { ok: false, reason: 'confirmation_not_approved' };
+    ticket.consumedAt = Date.now();
+    return { ok: true, ticket };
+  }
+
+  // Drop a ticket the user rejected or replaced
+  discard(ticketId: string): void {
+    this.tickets.delete(ticketId);
+  }
+
+  // Give a ticket back when the write it authorised is known not to have happened, so the user need not approve again
+  release(ticketId: string): void {
+    const ticket = this.tickets.get(ticketId);
+    if (ticket) ticket.consumedAt = undefined;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    this.tickets.forEach((ticket, id) => {
+      if (ticket.expiresAt <= now) this.tickets.delete(id);
+    });
+  }
+}
+
+export const confirmationTickets = new ConfirmationTicketStore();
+
+// Context note telling the model exactly which previewed writes the user has approved
+export const describeApprovedTickets = (tickets: ConfirmationTicket[]): string => {
+  const lines = tickets.map(ticket => `- ${ticket.tool}: ${JSON.stringify({ ...ticket.args, confirm: true, confirmation_ticket: ticket.id })}`);
+  return [
+    'The user has approved the following previewed actions. To carry one out, call the tool with exactly these arguments:',
+    ...lines,
+  ].join('\n');
+};
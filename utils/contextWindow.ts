@@ -0,0 +1,107 @@
+import { createHash } from 'crypto';
+import { ConversationSummary, Message } from '@/types/chat';
+
+// Token-based selection of the history sent to the model.
+// An assistant message with tool_calls and the tool results answering it are kept or dropped together.
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// After trimming, keep only this share of the budget so summaries are made in batches, not every turn
+const LOW_WATERMARK = 0.6;
+
+export const estimateTokens = (text: string): number => Math.ceil((text || '').length / CHARS_PER_TOKEN);
+
+export const estimateMessageTokens = (message: Message): number => {
+  const toolCalls = message.tool_calls ? JSON.stringify(message.tool_calls) : '';
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content) + estimateTokens(toolCalls);
+};
+
+export const estimateMessagesTokens = (messages: Message[]): number => {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+};
+
+// Stable identity for a message, used to remember how far the running summary reaches
+export const fingerprintMessage = (message: Message): string => {
+  return createHash('sha1')
+    .update(`${message.role}|${message.tool_call_id || ''}|${message.content || ''}|${JSON.stringify(message.tool_calls || [])}`)
+    .digest('hex')
+    .slice(0, 16);
+};
+
+// Index of the last message folded into the summary, or -1 when this history does not contain it
+export const findCoveredIndex = (history: Message[], summary: ConversationSummary): number => {
+  const { coveredMessageId, coveredUntil } = summary;
+  if (coveredMessageId) return history.findIndex(message => message.id === coveredMessageId);
+  if (!coveredUntil) return -1;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (fingerprintMessage(history[i]) === coveredUntil) return i;
+  }
+  return -1;
+};
+
+// Split history into units that must stay together. Tool results whose assistant message is gone are dropped.
+export const groupMessages = (messages: Message[]): Message[][] => {
+  const groups: Message[][] = [];
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    if (message.role === 'tool') continue;
+    if (message.role === 'assistant' && message.tool_calls && message.tool_calls.length > 0) {
+      const group = [message];
+      while (messages[i + 1]?.role === 'tool') {
+        group.push(messages[++i]);
+      }
+      groups.push(group);
+      continue;
+    }
+    groups.push([message]);
+  }
+  return groups;
+};
+
+export interface ContextPlan {
+  // Recent messages sent verbatim
+  kept: Message[];
+  // Older messages not yet covered by the summary that must be folded into it
+  toSummarize: Message[];
+}
+
+// Decide which messages go to the model given a token budget, an optional message cap and the current summary
+export const planContext = (
+  history: Message[],
+  summary: ConversationSummary | undefined,
+  budgetTokens: number,
+  maxMessages?: number
+): ContextPlan => {
+  // Messages up to the summary's marker are already condensed into it
+  const start = summary ? findCoveredIndex(history, summary) + 1 : 0;
+
+  const groups = groupMessages(history.slice(start));
+  const fits = (tokens: number, count: number, budget: number, cap?: number) => {
+    return tokens <= budget && (cap === undefined || count <= cap);
+  };
+
+  const allMessages = groups.flat();
+  if (fits(estimateMessagesTokens(allMessages), allMessages.length, budgetTokens, maxMessages)) {
+    return { kept: allMessages, toSummarize: [] };
+  }
+
+  const targetBudget = Math.floor(budgetTokens * LOW_WATERMARK);
+  const targetCap = maxMessages !== undefined ? Math.max(1, Math.floor(maxMessages * LOW_WATERMARK)) : undefined;
+  const keptGroups: Message[][] = [];
+  let tokens = 0;
+  let count = 0;
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const group = groups[i];
+    const groupTokens = estimateMessagesTokens(group);
+    // The newest unit is always sent, even when it alone exceeds the budget
+    if (keptGroups.length > 0 && !fits(tokens + groupTokens, count + group.length, targetBudget, targetCap)) {
+      break;
+    }
+    keptGroups.unshift(group);
+    tokens += groupTokens;
+    count += group.length;
+  }
+
+  const dropped = groups.slice(0, groups.length - keptGroups.length);
+  return { kept: keptGroups.flat(), toSummarize: dropped.flat() };
+};
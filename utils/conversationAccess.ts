@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { Message } from '@/types/chat';
+import { conversationStore } from '@/utils/memory';
+import { getBackendThreads, loadConversationHistory } from '@/utils/conversationHistory';
+import { LruCache } from '@/utils/lruCache';
+
+// Who may open a conversation: the user whose token started it here, or a user the backend lists the
+// thread for (conversations started elsewhere or before owners were recorded). Everyone else is told
+// the conversation does not exist, the same answer an unknown ID gets.
+
+// How long a user's backend thread list is trusted
+const THREAD_LIST_TTL_MS = 60_000;
+// An ID missing from a list at least this old refetches it, e.g. a thread the backend just created
+const THREAD_LIST_REFRESH_MS = 5_000;
+const MAX_CACHED_THREAD_LISTS = 1_000;
+
+export class ConversationNotFoundError extends Error {
+  readonly status = 404;
+  readonly code = 'conversation_not_found';
+
+  constructor() {
+    super('Conversation not found');
+    this.name = 'ConversationNotFoundError';
+  }
+}
+
+// Stored with the conversation instead of the token itself
+export const ownerOf = (userToken: string): string => createHash('sha256').update(userToken).digest('hex');
+
+// Backend thread IDs by owner
+const threadLists = new LruCache<{ ids: Set<string>; fetchedAt: number }>({
+  maxEntries: MAX_CACHED_THREAD_LISTS,
+  idleTtlMs: THREAD_LIST_TTL_MS
+});
+
+const threadIdsFor = async (userToken: string, maxAgeMs: number): Promise<Set<string>> => {
+  const key = ownerOf(userToken);
+  const cached = threadLists.get(key);
+  if (cached && Date.now() - cached.fetchedAt < maxAgeMs) return cached.ids;
+  const threads = await getBackendThreads(userToken);
+  // Backend unreachable: go with the last list it gave, if any
+  if (threads === null) return cached?.ids ?? new Set();
+  const ids = new Set(threads.map(thread => thread.id));
+  threadLists.set(key, { ids, fetchedAt: Date.now() });
+  return ids;
+};
+
+// The threads the backend keeps for this user, from a list at most a minute old
+export const listUserThreadIds = async (userToken: string): Promise<string[]> =>
+  [...(await threadIdsFor(userToken, THREAD_LIST_TTL_MS))];
+
+const isUserThread = async (conversationId: string, userToken: string): Promise<boolean> =>
+  (await threadIdsFor(userToken, THREAD_LIST_TTL_MS)).has(conversationId) ||
+  (await threadIdsFor(userToken, THREAD_LIST_REFRESH_MS)).has(conversationId);
+
+// The conversation's active branch for this user, loaded into the cache; throws ConversationNotFoundError
+// for conversations that do not exist or belong to someone else
+export const openConversation = async (conversationId: string, userToken: string): Promise<Message[]> => {
+  // Read from the store first: only it knows the owner
+  await conversationStore.load(conversationId);
+  const owner = conversationStore.getOwner(conversationId);
+  if (owner ? owner !== ownerOf(userToken) : !(await isUserThread(conversationId, userToken))) {
+    throw new ConversationNotFoundError();
+  }
+  return (await loadConversationHistory(conversationId, userToken)) ?? [];
+};
@@ -0,0 +1,325 @@
+import { ConversationSummary, Message, MessageMetadata, PendingAction, SummaryFact } from '@/types/chat';
+import { ConversationTree, MessageNode, SerializedConversationTree } from '@/utils/conversationTree';
+import { conversationStore } from '@/utils/memory';
+import { toRichHtml } from '@/utils/richText';
+
+// Transcripts for people (Markdown, HTML) and a lossless JSON bundle that can be imported again
+
+export const BUNDLE_FORMAT = 'needpedia-chat-conversation';
+export const BUNDLE_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html', 'json'];
+
+// Guard against importing something that would swamp the in-memory store
+const MAX_IMPORTED_NODES = 5000;
+
+const IMPORTED_ROLES: Message['role'][] = ['user', 'assistant'];
+
+export interface ConversationBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversationId: string;
+  title: string;
+  // Every branch, with each message's tool calls in its metadata
+  tree: SerializedConversationTree;
+  summary?: ConversationSummary;
+  // Previews that were waiting for a decision; informational once imported
+  pendingActions: PendingAction[];
+}
+
+// A bundle that cannot be imported
+export class ConversationBundleError extends Error {
+  readonly status = 400;
+  readonly code = 'invalid_bundle';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationBundleError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const previewText = (text: string, maxLength: number): string => {
+  const flat = (text || '').replace(/\s+/g, ' ').trim();
+  return flat.length > maxLength ? `${flat.slice(0, maxLength)}...` : flat;
+};
+
+const titleFor = (messages: Message[]): string => {
+  const firstUser = messages.find(m => m.role === 'user');
+  return previewText(firstUser?.content || '', 80) || 'Conversation';
+};
+
+// The conversation from the cache, or from the conversation store when it is not cached
+const readConversation = async (conversationId: string): Promise<{ tree: ConversationTree; summary?: ConversationSummary } | null> => {
+  const tree = conversationStore.getTree(conversationId);
+  if (tree) return { tree, summary: conversationStore.getSummary(conversationId) };
+  const stored = await conversationStore.read(conversationId);
+  if (!stored || (!stored.tree && stored.messages.length === 0)) return null;
+  return {
+    tree: stored.tree ? ConversationTree.fromJSON(stored.tree) : ConversationTree.fromMessages(stored.messages),
+    summary: stored.summary,
+  };
+};
+
+export const buildConversationBundle = async (
+  conversationId: string,
+  pendingActions: PendingAction[],
+  title?: string
+): Promise<ConversationBundle | null> => {
+  const conversation = await readConversation(conversationId);
+  if (!conversation) return null;
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversationId,
+    title: title?.trim() || titleFor(conversation.tree.messages()),
+    tree: conversation.tree.toJSON(),
+    ...(conversation.summary ? { summary: conversation.summary } : {}),
+    pendingActions,
+  };
+};
+
+// ---------------------------------------------------------------------------------------------
+// Transcripts
+
+const transcriptMessages = (bundle: ConversationBundle): Message[] => ConversationTree
+  .fromJSON(bundle.tree)
+  .messages()
+  .filter(m => m.role === 'user' || m.role === 'assistant');
+
+const speaker = (message: Message): string => (message.role === 'user' ? 'You' : 'Lotte');
+
+const formatTimestamp = (createdAt?: string): string => {
+  const date = createdAt ? new Date(createdAt) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString().replace('T', ' ').slice(0, 16) + ' UTC' : '';
+};
+
+const describeMetadata = (metadata?: MessageMetadata): string => [
+  metadata?.model,
+  metadata?.usage ? `${metadata.usage.totalTokens} tokens` : undefined,
+  metadata?.latencyMs !== undefined ? `${(metadata.latencyMs / 1000).toFixed(1)}s` : undefined,
+].filter(Boolean).join(' · ');
+
+const describeToolCall = (tool: NonNullable<MessageMetadata['tools']>[number]): string => {
+  const status = tool.ok ? 'ok' : 'failed';
+  return `${tool.name}(${tool.arguments ?? ''}) – ${tool.cached ? 'repeated call' : `${status}, ${tool.durationMs} ms`}`;
+};
+
+const alternativesNote = (messages: Message[]): string | undefined => {
+  const branched = messages.filter(m => m.branch).length;
+  return branched > 0
+    ? `${branched} message(s) in this transcript have other versions; the JSON export holds every branch.`
+    : undefined;
+};
+
+const describePreview = (action: PendingAction): string => {
+  const { preview } = action;
+  const target = action.tool === 'edit_content'
+    ? `edit of post #${preview.content_id ?? '?'}`
+    : `new ${preview.content_type || 'post'}${preview.parent_id ? ` under #${preview.parent_id}` : ''}`;
+  return `${target}${preview.title ? `: "${preview.title}"` : ''}`;
+};
+
+export const toMarkdownTranscript = (bundle: ConversationBundle): string => {
+  const messages = transcriptMessages(bundle);
+  const lines: string[] = [
+    `# ${bundle.title}`,
+    '',
+    `Conversation \`${bundle.conversationId}\`, exported ${formatTimestamp(bundle.exportedAt)}.`,
+  ];
+  const note = alternativesNote(messages);
+  if (note) lines.push('', `_${note}_`);
+
+  messages.forEach(message => {
+    const when = formatTimestamp(message.createdAt);
+    lines.push('', `## ${speaker(message)}${when ? ` · ${when}` : ''}`, '', message.content.trim() || '_(empty)_');
+    const details = describeMetadata(message.metadata);
+    if (details) lines.push('', `_${details}_`);
+    const tools = message.metadata?.tools ?? [];
+    if (tools.length > 0) {
+      lines.push('', 'Tool calls:', '', ...tools.map(tool => `- \`\` ${describeToolCall(tool)} \`\``));
+    }
+  });
+
+  if (bundle.pendingActions.length > 0) {
+    lines.push('', '## Previews awaiting a decision', '');
+    bundle.pendingActions.forEach(action => {
+      lines.push(`- ${describePreview(action)}`);
+      if (action.preview.description) {
+        lines.push('', ...action.preview.description.trim().split('\n').map(line => `  > ${line}`.trimEnd()), '');
+      }
+    });
+  }
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`;
+};
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const HTML_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.5; }
+  h1 { font-size: 1.4rem; }
+  .meta, .note { color: #6b7280; font-size: 0.85rem; }
+  .message { border: 1px solid #e5e7eb; border-radius: 12px; padding: 0.75rem 1rem; margin: 1rem 0; }
+  .message.user { background: #111827; color: #f9fafb; margin-left: 15%; }
+  .message.user .meta { color: #d1d5db; }
+  .message.user .content { white-space: pre-wrap; }
+  .message.assistant { background: #fff; margin-right: 15%; }
+  .content pre { background: #f3f4f6; padding: 0.5rem; border-radius: 6px; overflow-x: auto; }
+  .content table { border-collapse: collapse; }
+  .content th, .content td { border: 1px solid #e5e7eb; padding: 0.25rem 0.5rem; }
+  .tools { font-family: ui-monospace, monospace; font-size: 0.75rem; color: #6b7280; margin: 0.5rem 0 0; padding-left: 1.2rem; }
+  .preview { border: 1px solid #fcd34d; background: #fffbeb; border-radius: 12px; padding: 0.75rem 1rem; margin: 1rem 0; }
+`;
+
+// One self-contained page: inline styles, no scripts, assistant markdown rendered through the sanitizer
+export const toHtmlTranscript = (bundle: ConversationBundle): string => {
+  const messages = transcriptMessages(bundle);
+  const note = alternativesNote(messages);
+  const sections = messages.map(message => {
+    const when = formatTimestamp(message.createdAt);
+    const details = describeMetadata(message.metadata);
+    const tools = message.metadata?.tools ?? [];
+    const content = message.role === 'assistant' ? toRichHtml(message.content) : escapeHtml(message.content);
+    return [
+      `<section class="message ${message.role}">`,
+      `<div class="meta"><strong>${speaker(message)}</strong>${when ? ` · ${escapeHtml(when)}` : ''}</div>`,
+      `<div class="content">${content}</div>`,
+      details ? `<div class="meta">${escapeHtml(details)}</div>` : '',
+      tools.length > 0 ? `<ul class="tools">${tools.map(tool => `<li>${escapeHtml(describeToolCall(tool))}</li>`).join('')}</ul>` : '',
+      '</section>',
+    ].filter(Boolean).join('\n');
+  });
+  const previews = bundle.pendingActions.map(action => [
+    '<section class="preview">',
+    `<div class="meta">Preview awaiting a decision: ${escapeHtml(describePreview(action))}</div>`,
+    action.preview.html ? `<div class="content">${toRichHtml(action.preview.description || '')}</div>` : '',
+    '</section>',
+  ].filter(Boolean).join('\n'));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(bundle.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(bundle.title)}</h1>
+<p class="meta">Conversation ${escapeHtml(bundle.conversationId)}, exported ${escapeHtml(formatTimestamp(bundle.exportedAt))}</p>
+${note ? `<p class="note">${escapeHtml(note)}</p>\n` : ''}${[...sections, ...previews].join('\n')}
+</body>
+</html>
+`;
+};
+
+// ---------------------------------------------------------------------------------------------
+// Import
+
+// Only the user's and the assistant's words are imported, and only their text: a system or tool message
+// would stand in for the server's own instructions and tool results
+const readNode = (value: unknown): MessageNode => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    throw new ConversationBundleError('The export holds a message without an id');
+  }
+  const message = value.message;
+  if (!isRecord(message) || !IMPORTED_ROLES.includes(message.role as Message['role']) || typeof message.content !== 'string') {
+    throw new ConversationBundleError(`Message ${value.id} is not a user or assistant message with text`);
+  }
+  return {
+    id: value.id,
+    parentId: typeof value.parentId === 'string' ? value.parentId : null,
+    message: { role: message.role as Message['role'], content: message.content },
+    children: Array.isArray(value.children) ? value.children.filter((id): id is string => typeof id === 'string') : [],
+    ...(typeof value.activeChildId === 'string' ? { activeChildId: value.activeChildId } : {}),
+    createdAt: typeof value.createdAt === 'number' && Number.isFinite(value.createdAt) ? value.createdAt : Date.now(),
+  };
+};
+
+const FACT_FIELDS = ['title', 'type', 'link', 'note', 'sourceId'] as const;
+
+const readFact = (value: unknown): SummaryFact | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) return null;
+  const fact: SummaryFact = { id: value.id };
+  FACT_FIELDS.forEach(key => {
+    const field = value[key];
+    if (typeof field === 'string') fact[key] = field;
+  });
+  return fact;
+};
+
+// Only the fields a summary has, each of the right type; facts that are not facts are left out
+const readSummary = (value: unknown): ConversationSummary | undefined => {
+  if (!isRecord(value) || typeof value.text !== 'string' || !Array.isArray(value.facts)) return undefined;
+  return {
+    text: value.text,
+    facts: value.facts.map(readFact).filter((fact): fact is SummaryFact => fact !== null),
+    ...(typeof value.coveredUntil === 'string' ? { coveredUntil: value.coveredUntil } : {}),
+    ...(typeof value.coveredMessageId === 'string' ? { coveredMessageId: value.coveredMessageId } : {}),
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : new Date().toISOString(),
+  };
+};
+
+export interface ImportedConversation {
+  tree: ConversationTree;
+  summary?: ConversationSummary;
+  title: string;
+  // False when the export had no title and `title` is the opening question
+  titled: boolean;
+}
+
+// Validate an uploaded bundle and rebuild its tree; references to missing messages are dropped
+export const parseConversationBundle = (input: unknown): ImportedConversation => {
+  if (!isRecord(input) || input.format !== BUNDLE_FORMAT) {
+    throw new ConversationBundleError(`Not a conversation export (expected "format": "${BUNDLE_FORMAT}")`);
+  }
+  if (typeof input.version !== 'number' || input.version > BUNDLE_VERSION) {
+    throw new ConversationBundleError(`Unsupported export version ${String(input.version)}`);
+  }
+  const tree = input.tree;
+  if (!isRecord(tree) || !Array.isArray(tree.nodes) || !Array.isArray(tree.rootIds)) {
+    throw new ConversationBundleError('The export holds no conversation tree');
+  }
+  if (tree.nodes.length > MAX_IMPORTED_NODES) {
+    throw new ConversationBundleError(`The conversation is too large to import (more than ${MAX_IMPORTED_NODES} messages)`);
+  }
+
+  const nodes = tree.nodes.map(readNode);
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  if (byId.size !== nodes.length) {
+    throw new ConversationBundleError('The export repeats message ids');
+  }
+  // A child counts only under the parent it names, so the links cannot form a cycle
+  nodes.forEach(node => {
+    if (node.parentId && !byId.has(node.parentId)) node.parentId = null;
+  });
+  nodes.forEach(node => {
+    node.children = [...new Set(node.children)].filter(id => byId.get(id)?.parentId === node.id);
+    if (node.activeChildId && !node.children.includes(node.activeChildId)) delete node.activeChildId;
+  });
+  const rootIds = [...new Set(tree.rootIds)].filter((id): id is string => typeof id === 'string' && byId.get(id)?.parentId === null);
+  // Messages whose parent went missing become extra roots rather than disappearing
+  nodes.filter(node => node.parentId === null && !rootIds.includes(node.id)).forEach(node => rootIds.push(node.id));
+
+  const rebuilt = ConversationTree.fromJSON({
+    nodes,
+    rootIds,
+    ...(typeof tree.activeRootId === 'string' && rootIds.includes(tree.activeRootId) ? { activeRootId: tree.activeRootId } : {}),
+  });
+  if (rebuilt.activeBranch().length === 0) {
+    throw new ConversationBundleError('The export holds no messages');
+  }
+
+  const summary = readSummary(input.summary);
+  const titled = typeof input.title === 'string' && input.title.trim() !== '';
+  const title = titled ? previewText(String(input.title), 80) : titleFor(rebuilt.messages());
+  return { tree: rebuilt, ...(summary ? { summary } : {}), title, titled };
+};
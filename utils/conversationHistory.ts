@@ -0,0 +1,130 @@
+import { Message, MessageMetadata } from '@/types/chat';
+import { conversationStore } from '@/utils/memory';
+
+// Where a conversation's messages come from when this process does not have it cached: the
+// conversation store (CHAT_STORE), then the backend's thread history.
+
+const getBaseUrl = () => process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000';
+
+const backendHeaders = (userToken?: string): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(userToken ? { 'Authorization': userToken, 'token': userToken } : {}),
+  ...(process.env.POST_TOKEN ? { 'X-Internal-Auth': process.env.POST_TOKEN } : {})
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Thread messages come back as they were recorded: id and reply metadata inside `metadata`
+const fromBackendMessage = (raw: Record<string, unknown>): Message => {
+  const metadata = isRecord(raw.metadata) ? raw.metadata : {};
+  const replyMetadata: MessageMetadata = {
+    ...(typeof metadata.model === 'string' ? { model: metadata.model } : {}),
+    ...(isRecord(metadata.usage) ? { usage: metadata.usage as unknown as MessageMetadata['usage'] } : {}),
+    ...(typeof metadata.latencyMs === 'number' ? { latencyMs: metadata.latencyMs } : {}),
+    ...(Array.isArray(metadata.tools) ? { tools: metadata.tools as MessageMetadata['tools'] } : {})
+  };
+  const createdAt = raw.created_at ?? raw.createdAt;
+  return {
+    role: raw.role as Message['role'],
+    content: typeof raw.content === 'string' ? raw.content : '',
+    ...(typeof metadata.message_id === 'string' ? { id: metadata.message_id } : {}),
+    ...(typeof createdAt === 'string' ? { createdAt } : {}),
+    ...(metadata.cancelled === true ? { cancelled: true } : {}),
+    ...(Object.keys(replyMetadata).length > 0 ? { metadata: replyMetadata } : {})
+  };
+};
+
+export const getBackendMessages = async (conversationId: string, userToken?: string): Promise<Message[] | null> => {
+  const url = `${getBaseUrl()}/api/v1/chat_threads/${conversationId}`;
+
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: backendHeaders(userToken)
+    });
+
+    if (!response.ok) {
+      console.warn(`History API: Backend returned ${response.status} for ${conversationId}`);
+      return null;
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!data) return null;
+
+    const rawMessages: unknown =
+      data?.messages ||
+      data?.chat_thread?.messages ||
+      data?.thread?.messages ||
+      data?.conversation?.messages ||
+      [];
+
+    if (Array.isArray(rawMessages) && rawMessages.length) {
+      const messages = rawMessages.filter(isRecord).map(fromBackendMessage);
+      console.log(`History API: Retrieved ${messages.length} messages from backend for ${conversationId}`);
+      return messages;
+    }
+    return null;
+  } catch (error) {
+    console.warn(`History API: Failed to load backend messages for ${conversationId}`, error);
+    return null;
+  }
+};
+
+export interface BackendThread {
+  id: string;
+  title?: string;
+  lastMessage?: string;
+  updatedAt?: string;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+// Older backends list bare thread IDs; newer ones send each thread's metadata
+const fromBackendThread = (raw: unknown): BackendThread | null => {
+  if (typeof raw === 'string') return raw ? { id: raw } : null;
+  if (!isRecord(raw)) return null;
+  const id = raw.thread_id ?? raw.id;
+  if (typeof id !== 'string' && typeof id !== 'number') return null;
+  const updatedAt = raw.updated_at ?? raw.updatedAt;
+  const lastMessage = raw.last_message ?? raw.lastMessage;
+  return {
+    id: String(id),
+    ...(typeof raw.title === 'string' && raw.title ? { title: raw.title } : {}),
+    ...(typeof lastMessage === 'string' && lastMessage ? { lastMessage } : {}),
+    ...(typeof updatedAt === 'string' ? { updatedAt } : {}),
+    ...(typeof raw.pinned === 'boolean' ? { pinned: raw.pinned } : {}),
+    ...(typeof raw.archived === 'boolean' ? { archived: raw.archived } : {})
+  };
+};
+
+// The threads the backend keeps for this user; null when the backend could not be asked
+export const getBackendThreads = async (userToken: string): Promise<BackendThread[] | null> => {
+  try {
+    const response = await fetch(`${getBaseUrl()}/api/v1/chat_threads`, {
+      method: 'GET',
+      headers: backendHeaders(userToken)
+    });
+    if (!response.ok) return null;
+    const data = (await response.json().catch(() => ({ threads: [] }))) as { threads?: unknown };
+    return Array.isArray(data?.threads)
+      ? data.threads.map(fromBackendThread).filter((thread): thread is BackendThread => thread !== null)
+      : [];
+  } catch (error: unknown) {
+    console.warn('History API: Failed to list backend threads', error);
+    return null;
+  }
+};
+
+// The conversation's active branch, loading it into the cache first if needed; undefined when nothing has it
+export const loadConversationHistory = async (conversationId: string, userToken?: string): Promise<Message[] | undefined> => {
+  // Only the conversation store knows about edited and regenerated branches, so it wins over the backend's flat list
+  const history = await conversationStore.load(conversationId);
+  if (history && history.length > 0) return history;
+
+  const backendHistory = await getBackendMessages(conversationId, userToken);
+  if (backendHistory && backendHistory.length > 0) {
+    conversationStore.prime(conversationId, backendHistory);
+    return conversationStore.get(conversationId);
+  }
+  return undefined;
+};
@@ -0,0 +1,21 @@
+// Conversation IDs name files on disk and paths on the backend, so only plain tokens are accepted: the
+// UUIDs this server generates and the numeric or slug IDs of backend threads. No dots, slashes or spaces.
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,99}$/;
+
+export class ConversationIdError extends Error {
+  readonly status = 400;
+  readonly code = 'invalid_conversation_id';
+
+  constructor(message = 'Invalid conversation ID') {
+    super(message);
+    this.name = 'ConversationIdError';
+  }
+}
+
+export const isConversationId = (value: unknown): value is string =>
+  typeof value === 'string' && CONVERSATION_ID_PATTERN.test(value);
+
+export const assertConversationId = (value: unknown): string => {
+  if (!isConversationId(value)) throw new ConversationIdError();
+  return value;
+};
@@ -0,0 +1,245 @@
+import { ConversationSearchResult, Message } from '@/types/chat';
+import { LruCache } from '@/utils/lruCache';
+
+// Full-text search over conversation messages. Matching ignores case and accents, and every query
+// word has to start some word of the message ("bike lan" finds "Bike lanes").
+// Conversations are indexed per owner; the conversation cache keeps the index current as it saves and
+// deletes, so a search only reads the conversations the index has not seen yet.
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 160;
+// Users whose conversations stay indexed, least recently searched first out
+const MAX_INDEXED_OWNERS = 20;
+const INDEX_IDLE_TTL_MS = 30 * 60_000;
+// Conversations indexed per user, most recently changed kept
+const MAX_INDEXED_PER_OWNER = 200;
+// A conversation that could not be read is tried again after this long
+const UNAVAILABLE_RETRY_MS = 60_000;
+const TITLE_LENGTH = 60;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Message text lowercased and stripped of accents, with the span of the original text each character came from
+interface FoldedText {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+interface IndexedMessage {
+  message: Message;
+  folded: FoldedText;
+  words: string[];
+}
+
+interface IndexedConversation {
+  // Changes whenever a message is added, edited or regenerated
+  signature: string;
+  title: string;
+  messages: IndexedMessage[];
+}
+
+// One user's conversations; `unavailable` holds the ones that could not be read, with when that was
+interface OwnerIndex {
+  conversations: Map<string, IndexedConversation>;
+  unavailable: Map<string, number>;
+}
+
+const fold = (text: string): FoldedText => {
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let folded = '';
+  let index = 0;
+  for (const char of text) {
+    const replacement = char.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+    for (let i = 0; i < replacement.length; i += 1) {
+      starts.push(index);
+      ends.push(index + char.length);
+    }
+    folded += replacement;
+    index += char.length;
+  }
+  return { text: folded, starts, ends };
+};
+
+export const toSearchTerms = (query: string): string[] =>
+  Array.from(new Set(fold(query).text.match(WORD_PATTERN) ?? []));
+
+const signatureOf = (messages: Message[]): string =>
+  `${messages.length}:${messages.map(m => m.id ?? '').join(',')}:${messages.reduce((total, m) => total + (m.content?.length ?? 0), 0)}`;
+
+const titleOf = (messages: Message[]): string => {
+  const opening = messages.find(m => m.role === 'user')?.content.replace(/\s+/g, ' ').trim() || 'Untitled conversation';
+  return opening.length > TITLE_LENGTH ? `${opening.slice(0, TITLE_LENGTH)}...` : opening;
+};
+
+const indexConversation = (messages: Message[], previous?: IndexedConversation): IndexedConversation => {
+  const signature = signatureOf(messages);
+  if (previous && previous.signature === signature) return previous;
+  return {
+    signature,
+    title: titleOf(messages),
+    messages: messages
+      .filter(m => (m.role === 'user' || m.role === 'assistant') && m.content)
+      .map(message => {
+        const folded = fold(message.content);
+        return { message, folded, words: Array.from(new Set(folded.text.match(WORD_PATTERN) ?? [])) };
+      })
+  };
+};
+
+// Rank a message against the query: 0 when some term is missing, more for whole words and the exact phrase
+const scoreMessage = (entry: IndexedMessage, terms: string[], phrase: string): number => {
+  let score = 0;
+  for (const term of terms) {
+    if (entry.words.includes(term)) score += 2;
+    else if (entry.words.some(word => word.startsWith(term))) score += 1;
+    else return 0;
+  }
+  if (terms.length > 1 && entry.folded.text.includes(phrase)) score += terms.length;
+  return score;
+};
+
+// Folded-text spans where a word starts with one of the terms
+const findMatches = (folded: string, terms: string[]): Array<[number, number]> => {
+  const spans: Array<[number, number]> = [];
+  for (const match of folded.matchAll(WORD_PATTERN)) {
+    const start = match.index ?? 0;
+    const term = terms.filter(t => match[0].startsWith(t)).sort((a, b) => b.length - a.length)[0];
+    if (term) spans.push([start, start + term.length]);
+  }
+  return spans;
+};
+
+const buildSnippet = (entry: IndexedMessage, terms: string[]): Pick<ConversationSearchResult, 'snippet' | 'highlights'> => {
+  const content = entry.message.content;
+  const { starts, ends } = entry.folded;
+  const spans = findMatches(entry.folded.text, terms).map(([start, end]) => [starts[start], ends[end - 1]] as [number, number]);
+  const first = spans[0]?.[0] ?? 0;
+
+  let from = Math.max(0, first - SNIPPET_BEFORE);
+  let to = Math.min(content.length, from + SNIPPET_LENGTH);
+  from = Math.max(0, Math.min(from, to - SNIPPET_LENGTH));
+  // Cut at word boundaries so the excerpt does not open or close mid-word
+  if (from > 0) {
+    const space = content.indexOf(' ', from);
+    if (space !== -1 && space < first) from = space + 1;
+  }
+  if (to < content.length) {
+    const space = content.lastIndexOf(' ', to);
+    if (space > first) to = space;
+  }
+
+  const prefix = from > 0 ? '…' : '';
+  const snippet = `${prefix}${content.slice(from, to).replace(/\s/g, ' ')}${to < content.length ? '…' : ''}`;
+  const highlights = spans
+    .filter(([start, end]) => start >= from && end <= to)
+    .map(([start, end]) => [start - from + prefix.length, end - from + prefix.length] as [number, number]);
+  return { snippet, highlights };
+};
+
+// The best message of each matching conversation, best conversations first
+const rank = (
+  conversations: Array<{ conversationId: string; entry: IndexedConversation }>,
+  query: string,
+  limit: number
+): ConversationSearchResult[] => {
+  const terms = toSearchTerms(query);
+  if (terms.length === 0) return [];
+  const phrase = terms.join(' ');
+
+  const ranked: Array<{ score: number; result: ConversationSearchResult }> = [];
+  for (const { conversationId, entry } of conversations) {
+    let best: { entry: IndexedMessage; score: number } | undefined;
+    let matches = 0;
+    for (const message of entry.messages) {
+      const score = scoreMessage(message, terms, phrase);
+      if (score === 0) continue;
+      matches += 1;
+      // Ties go to the later message, which is usually the more refined answer
+      if (!best || score >= best.score) best = { entry: message, score };
+    }
+    if (!best) continue;
+
+    const { message } = best.entry;
+    ranked.push({
+      score: best.score + Math.log2(1 + matches),
+      result: {
+        conversationId,
+        title: entry.title,
+        ...(message.id ? { messageId: message.id } : {}),
+        role: message.role,
+        ...(message.createdAt ? { createdAt: message.createdAt } : {}),
+        ...buildSnippet(best.entry, terms),
+        matches
+      }
+    });
+  }
+
+  return ranked
+    .sort((a, b) => b.score - a.score || (b.result.createdAt ?? '').localeCompare(a.result.createdAt ?? ''))
+    .slice(0, limit)
+    .map(r => r.result);
+};
+
+class ConversationSearchIndex {
+  private owners = new LruCache<OwnerIndex>({ maxEntries: MAX_INDEXED_OWNERS, idleTtlMs: INDEX_IDLE_TTL_MS });
+
+  private ownerIndex(owner: string): OwnerIndex {
+    let index = this.owners.get(owner);
+    if (!index) {
+      index = { conversations: new Map(), unavailable: new Map() };
+      this.owners.set(owner, index);
+    }
+    return index;
+  }
+
+  // Indexed, or recently found unreadable, so a search need not read it
+  covers(owner: string, conversationId: string): boolean {
+    const index = this.owners.get(owner);
+    if (!index) return false;
+    const failedAt = index.unavailable.get(conversationId);
+    return index.conversations.has(conversationId) || (failedAt !== undefined && Date.now() - failedAt < UNAVAILABLE_RETRY_MS);
+  }
+
+  // Index a conversation read for this user's search
+  add(owner: string, conversationId: string, messages: Message[]): void {
+    const index = this.ownerIndex(owner);
+    const entry = indexConversation(messages, index.conversations.get(conversationId));
+    index.unavailable.delete(conversationId);
+    index.conversations.delete(conversationId);
+    index.conversations.set(conversationId, entry);
+    while (index.conversations.size > MAX_INDEXED_PER_OWNER) {
+      const oldest = index.conversations.keys().next().value;
+      if (oldest === undefined) break;
+      index.conversations.delete(oldest);
+    }
+  }
+
+  markUnavailable(owner: string, conversationId: string): void {
+    this.ownerIndex(owner).unavailable.set(conversationId, Date.now());
+  }
+
+  // After a save: refresh the conversation for an owner who has searched; others are indexed on their first search
+  update(owner: string, conversationId: string, messages: Message[]): void {
+    if (this.owners.peek(owner)) this.add(owner, conversationId, messages);
+  }
+
+  remove(conversationId: string): void {
+    this.owners.values().forEach(index => {
+      index.conversations.delete(conversationId);
+      index.unavailable.delete(conversationId);
+    });
+  }
+
+  // Search the owner's indexed conversations among `conversationIds`
+  search(owner: string, conversationIds: string[], query: string, limit = 20): { results: ConversationSearchResult[]; searched: number } {
+    const index = this.owners.get(owner);
+    const conversations = conversationIds.flatMap(conversationId => {
+      const entry = index?.conversations.get(conversationId);
+      return entry ? [{ conversationId, entry }] : [];
+    });
+    return { results: rank(conversations, query, limit), searched: conversations.length };
+  }
+}
+
+export const conversationSearchIndex = new ConversationSearchIndex();
@@ -0,0 +1,210 @@
+import { ConversationSummary, Message, SummaryFact } from '@/types/chat';
+import { UsageMetrics } from '@/types/llm';
+import { ModelRouter } from '@/utils/llm/modelRouter';
+import { ConversationTree } from '@/utils/conversationTree';
+import { estimateTokens, fingerprintMessage } from '@/utils/contextWindow';
+import { isAbortError } from '@/utils/abort';
+
+// Rolling summary of turns trimmed from the model's context.
+// The prose is written by the model; post IDs are collected deterministically so they survive a poor summary.
+
+const MAX_FACTS = 24;
+const MAX_SUMMARY_TOKENS = 400;
+const MAX_EXCERPT_CHARS = 600;
+
+const SUMMARY_INSTRUCTIONS = `You maintain the running summary of a conversation between a Needpedia user and Lotte, the Needpedia assistant.
+Merge the previous summary with the new messages into one updated summary of at most ${MAX_SUMMARY_TOKENS / 2} words.
+Keep: the user's current goal and which step of it they are on; every subject, problem and idea the user selected, with its title and ID; drafts of titles or descriptions not yet published; decisions, approvals and rejections.
+Drop greetings, small talk and search results the user did not pick. Write plain prose, no headings.`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const toId = (value: unknown): string | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  return undefined;
+};
+
+const optionalString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const parseJson = (raw: string | undefined): unknown => {
+  try {
+    return JSON.parse(raw || '');
+  } catch {
+    return undefined;
+  }
+};
+
+const factFromPost = (post: unknown, note?: string, sourceId?: string): SummaryFact | undefined => {
+  if (!isRecord(post)) return undefined;
+  const id = toId(post.id);
+  if (!id) return undefined;
+  return {
+    id,
+    title: optionalString(post.title),
+    type: optionalString(post.type) ?? optionalString(post.post_type),
+    link: optionalString(post.link),
+    note,
+    sourceId,
+  };
+};
+
+// Markdown links to posts, e.g. [Clean water](https://needpedia.org/posts/42)
+const POST_LINK_PATTERN = /\[([^\]]+)\]\((https?:\/\/[^)\s]*\/posts\/(\d+)[^)\s]*)\)/g;
+
+// Post IDs mentioned by the conversation: selections in tool arguments, published posts and linked posts
+export const collectFacts = (messages: Message[]): SummaryFact[] => {
+  const facts: SummaryFact[] = [];
+  messages.forEach(message => {
+    const sourceId = message.id;
+    message.tool_calls?.forEach(call => {
+      const args = parseJson(call.function.arguments);
+      if (!isRecord(args)) return;
+      const parentId = toId(args.parent_id);
+      if (parentId) {
+        const childType = optionalString(args.content_type) ?? 'post';
+        facts.push({ id: parentId, note: `selected as parent of the ${childType} "${optionalString(args.title) ?? 'draft'}"`, sourceId });
+      }
+      const contentId = toId(args.content_id);
+      if (contentId) {
+        facts.push({ id: contentId, note: 'selected for editing', sourceId });
+      }
+    });
+
+    if (message.role === 'tool') {
+      const result = parseJson(message.content);
+      if (isRecord(result)) {
+        const published = factFromPost(result.post, message.name === 'edit_content' ? 'updated' : 'published', sourceId);
+        if (published) facts.push(published);
+      }
+      return;
+    }
+
+    for (const match of (message.content || '').matchAll(POST_LINK_PATTERN)) {
+      facts.push({ id: match[3], title: match[1], link: match[2], sourceId });
+    }
+  });
+  return facts;
+};
+
+// Newer facts win per field; the most recently mentioned posts are kept when over the cap
+export const mergeFacts = (current: SummaryFact[], incoming: SummaryFact[]): SummaryFact[] => {
+  const byId = new Map<string, SummaryFact>();
+  [...current, ...incoming].forEach(fact => {
+    const previous = byId.get(fact.id);
+    byId.delete(fact.id);
+    const merged: SummaryFact = { ...previous, id: fact.id };
+    (['title', 'type', 'link', 'note', 'sourceId'] as const).forEach(key => {
+      if (fact[key]) merged[key] = fact[key];
+    });
+    byId.set(fact.id, merged);
+  });
+  return [...byId.values()].slice(-MAX_FACTS);
+};
+
+const describeMessage = (message: Message): string => {
+  const calls = message.tool_calls?.map(call => `${call.function.name}(${call.function.arguments})`).join(', ');
+  const content = (message.content || '').slice(0, MAX_EXCERPT_CHARS);
+  return `${message.role}: ${[content, calls ? `[called ${calls}]` : ''].filter(Boolean).join(' ')}`;
+};
+
+// Used when no model can write the summary: keep what the user asked for, newest last
+const extractiveSummary = (previous: string, messages: Message[]): string => {
+  const requests = messages
+    .filter(message => message.role === 'user' && message.content.trim())
+    .map(message => `- User: ${message.content.trim().slice(0, 200)}`);
+  const text = [previous, ...requests].filter(Boolean).join('\n');
+  const maxChars = MAX_SUMMARY_TOKENS * 4;
+  return text.length > maxChars ? text.slice(-maxChars) : text;
+};
+
+export interface SummaryUpdate {
+  summary: ConversationSummary;
+  usage?: UsageMetrics;
+}
+
+export const emptySummary = (): ConversationSummary => ({ text: '', facts: [], updatedAt: new Date().toISOString() });
+
+// The part of the stored summary that belongs to the branch `history` shows: its text only if the branch runs
+// through the last summarized message, and the facts collected from messages on the branch. Messages no longer
+// in the tree were trimmed from above the branch, so what came from them still applies.
+export const summaryForBranch = (
+  summary: ConversationSummary | undefined,
+  history: Message[],
+  tree: ConversationTree | undefined
+): ConversationSummary | undefined => {
+  if (!summary) return undefined;
+  const onBranch = new Set(history.map(message => message.id).filter(Boolean));
+  const applies = (messageId: string | undefined) => !messageId || onBranch.has(messageId) || !tree?.get(messageId);
+  const facts = summary.facts.filter(fact => applies(fact.sourceId));
+  if (applies(summary.coveredMessageId)) {
+    return facts.length === summary.facts.length ? summary : { ...summary, facts };
+  }
+  // Written on a branch the user left by editing or regenerating
+  return facts.length > 0 ? { text: '', facts, updatedAt: summary.updatedAt } : undefined;
+};
+
+// Fold messages that no longer fit in the context into the running summary. A stopped turn stops the
+// summary call too and rethrows; any other failure falls back to an extractive summary.
+export const summarizeMessages = async (
+  router: ModelRouter,
+  previous: ConversationSummary | undefined,
+  messages: Message[],
+  signal?: AbortSignal
+): Promise<SummaryUpdate> => {
+  const base = previous ?? emptySummary();
+  const facts = mergeFacts(base.facts, collectFacts(messages));
+  const last = messages[messages.length - 1];
+  const coveredUntil = last ? fingerprintMessage(last) : base.coveredUntil;
+  const coveredMessageId = last ? last.id : base.coveredMessageId;
+
+  const transcript = messages.map(describeMessage).join('\n');
+  try {
+    const response = await router.complete({
+      messages: [
+        { role: 'system', content: SUMMARY_INSTRUCTIONS },
+        { role: 'user', content: `Previous summary:\n${base.text || '(none)'}\n\nNew messages:\n${transcript}` },
+      ],
+    }, { signal });
+    const text = (response.message.content || '').trim();
+    if (!text) throw new Error('Empty summary');
+    return {
+      summary: { text, facts, coveredUntil, coveredMessageId, updatedAt: new Date().toISOString() },
+      usage: response.usage,
+    };
+  } catch (error: unknown) {
+    if (isAbortError(error, signal)) throw error;
+    return {
+      summary: {
+        text: extractiveSummary(base.text, messages),
+        facts,
+        coveredUntil,
+        coveredMessageId,
+        updatedAt: new Date().toISOString()
+      },
+    };
+  }
+};
+
+// The system message injected right after the system prompt
+export const buildSummaryMessage = (summary: ConversationSummary): Message | undefined => {
+  if (!summary.text && summary.facts.length === 0) return undefined;
+  const factLines = summary.facts.map(fact => {
+    const details = [fact.type, fact.title ? `"${fact.title}"` : undefined, fact.note, fact.link].filter(Boolean).join(', ');
+    return `- ID ${fact.id}${details ? `: ${details}` : ''}`;
+  });
+  const sections = [
+    summary.text ? `Summary of earlier conversation:\n${summary.text}` : '',
+    factLines.length > 0 ? `Posts referenced so far (use these IDs instead of searching again):\n${factLines.join('\n')}` : '',
+  ].filter(Boolean);
+  return { role: 'system', content: sections.join('\n\n') };
+};
+
+export const estimateSummaryTokens = (summary: ConversationSummary | undefined): number => {
+  const message = summary ? buildSummaryMessage(summary) : undefined;
+  return message ? estimateTokens(message.content) : 0;
+};
@@ -0,0 +1,190 @@
+import { ConversationTitle, Message } from '@/types/chat';
+import { UsageMetrics } from '@/types/llm';
+import { ModelRouter, loadModelChain } from '@/utils/llm/modelRouter';
+import { getChatProvider } from '@/utils/llm';
+import { conversationStore } from '@/utils/memory';
+import { enqueueConversationSnapshot, enqueueThreadRecord } from '@/utils/outbox';
+import { extractTokenCount, recordTokenUsage } from '@/utils/tokenBalance';
+
+// Short descriptive conversation titles written by a cheap model (LLM_TITLE_MODELS).
+// The first exchange gets a title; later turns only ask the model again when the user's words
+// stop overlapping with what the title was based on, and the model decides whether the topic moved.
+
+// A title call still running after this long is given up; turns never wait for their title
+const TITLE_TIMEOUT_MS = Number(process.env.CHAT_TITLE_TIMEOUT_MS || 15_000);
+const MAX_TITLE_CHARS = 60;
+const MAX_EXCERPT_CHARS = 400;
+// New user messages before the topic is checked again
+const REFRESH_MIN_TURNS = 3;
+// Below this share of new words already seen, the topic may have changed
+const TOPIC_OVERLAP_THRESHOLD = 0.2;
+const MIN_NEW_KEYWORDS = 3;
+const MAX_KEYWORDS = 40;
+
+const TITLE_INSTRUCTIONS = `Write a title for this conversation between a Needpedia user and Lotte, the Needpedia assistant.
+Use 3 to 7 words naming what the user wants, e.g. "Protected bike lanes for Main Street". Write it in the user's language.
+No quotes, no trailing period, no emoji. Reply with the title only.`;
+
+const refreshInstructions = (title: string) => `The conversation below between a Needpedia user and Lotte, the Needpedia assistant, is titled "${title}".
+If the latest messages are still about that topic, reply with exactly KEEP.
+If the user has clearly moved on to a different topic, reply with a new title of 3 to 7 words naming the current topic, in the user's language. No quotes, no trailing period, no emoji.`;
+
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'also', 'because', 'been', 'before', 'being', 'could', 'does', 'doing', 'from',
+  'have', 'having', 'help', 'here', 'into', 'just', 'like', 'make', 'more', 'most', 'much', 'need', 'only',
+  'other', 'please', 'should', 'some', 'such', 'than', 'thank', 'thanks', 'that', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'very', 'want', 'what', 'when', 'where', 'which', 'while',
+  'will', 'with', 'would', 'your', 'yours', 'lotte', 'needpedia',
+]);
+
+const WORD_PATTERN = /[\p{L}\p{N}]{4,}/gu;
+
+const toKeywords = (text: string): string[] =>
+  (text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().match(WORD_PATTERN) ?? []).filter(word => !STOPWORDS.has(word));
+
+// User messages after the last topic check; all of them when that message was trimmed or is on another branch
+const userMessagesSince = (messages: Message[], checkedUntil?: string): Message[] => {
+  const index = checkedUntil ? messages.findIndex(m => m.id === checkedUntil) : -1;
+  return messages.slice(index + 1).filter(m => m.role === 'user');
+};
+
+// Most frequent content words of the conversation, kept to compare later messages against
+const extractKeywords = (messages: Message[]): string[] => {
+  const counts = new Map<string, number>();
+  messages
+    .filter(m => m.role === 'user' || m.role === 'assistant')
+    .forEach(m => toKeywords(m.content).forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1)));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_KEYWORDS)
+    .map(([word]) => word);
+};
+
+// The user's messages since the last check share few words with what the title was based on
+const topicLooksChanged = (title: ConversationTitle, recent: Message[]): boolean => {
+  const words = new Set(recent.flatMap(m => toKeywords(m.content)));
+  if (words.size < MIN_NEW_KEYWORDS) return false;
+  const known = new Set([...title.keywords, ...toKeywords(title.text)]);
+  const overlap = [...words].filter(word => known.has(word)).length / words.size;
+  return overlap < TOPIC_OVERLAP_THRESHOLD;
+};
+
+const describeMessage = (message: Message): string =>
+  `${message.role}: ${(message.content || '').replace(/\s+/g, ' ').trim().slice(0, MAX_EXCERPT_CHARS)}`;
+
+// Models like to wrap titles in quotes, prefix them or end them with a period
+const cleanTitle = (raw: string): string | undefined => {
+  const firstLine = raw.split('\n').map(line => line.trim()).find(Boolean) ?? '';
+  let title = firstLine
+    .replace(/^(title|new title)\s*:\s*/i, '')
+    .replace(/^[\s"'`*#“”‘’«»]+|[\s"'`*“”‘’«».!]+$/g, '')
+    .replace(/\s+/g, ' ');
+  if (title.length > MAX_TITLE_CHARS) {
+    const cut = title.slice(0, MAX_TITLE_CHARS);
+    const space = cut.lastIndexOf(' ');
+    title = `${space > MAX_TITLE_CHARS / 2 ? cut.slice(0, space) : cut}...`;
+  }
+  return title || undefined;
+};
+
+export interface TitleUpdate {
+  title: ConversationTitle;
+  // False when the topic check kept the current title
+  changed: boolean;
+  usage?: UsageMetrics;
+}
+
+// Title a conversation after its first exchange, or check a suspected change of topic; undefined when neither is due
+export const updateConversationTitle = async (
+  router: ModelRouter,
+  current: ConversationTitle | undefined,
+  messages: Message[],
+  signal?: AbortSignal
+): Promise<TitleUpdate | undefined> => {
+  const conversation = messages.filter(m => (m.role === 'user' || m.role === 'assistant') && m.content);
+  if (!conversation.some(m => m.role === 'user') || !conversation.some(m => m.role === 'assistant')) return undefined;
+  const checkedUntil = conversation[conversation.length - 1].id;
+
+  if (!current) {
+    const response = await router.complete({
+      messages: [
+        { role: 'system', content: TITLE_INSTRUCTIONS },
+        { role: 'user', content: conversation.slice(0, 4).map(describeMessage).join('\n') },
+      ],
+      toolChoice: 'none',
+    }, { signal });
+    const text = cleanTitle(response.message.content || '');
+    if (!text) return undefined;
+    return {
+      title: { text, checkedUntil, keywords: extractKeywords(conversation), model: response.model, updatedAt: new Date().toISOString() },
+      changed: true,
+      usage: response.usage,
+    };
+  }
+
+  const recent = userMessagesSince(conversation, current.checkedUntil);
+  if (recent.length < REFRESH_MIN_TURNS || !topicLooksChanged(current, recent)) return undefined;
+
+  const response = await router.complete({
+    messages: [
+      { role: 'system', content: refreshInstructions(current.text) },
+      { role: 'user', content: conversation.slice(-6).map(describeMessage).join('\n') },
+    ],
+    toolChoice: 'none',
+  }, { signal });
+  const reply = cleanTitle(response.message.content || '');
+  const recentKeywords = extractKeywords(conversation.slice(-6));
+  if (!reply || /^keep$/i.test(reply) || reply === current.text) {
+    // Same topic after all: remember the new words so the next check compares against them too
+    const keywords = Array.from(new Set([...recentKeywords, ...current.keywords])).slice(0, MAX_KEYWORDS);
+    return { title: { ...current, checkedUntil, keywords }, changed: false, usage: response.usage };
+  }
+  return {
+    title: { text: reply, checkedUntil, keywords: recentKeywords, model: response.model, updatedAt: new Date().toISOString() },
+    changed: true,
+    usage: response.usage,
+  };
+};
+
+// A title that came with the conversation, e.g. in an import; later turns check it for a change of topic like their own
+export const givenTitle = (text: string, messages: Message[]): ConversationTitle => {
+  const conversation = messages.filter(m => (m.role === 'user' || m.role === 'assistant') && m.content);
+  return { text, checkedUntil: conversation[conversation.length - 1]?.id, keywords: extractKeywords(conversation), updatedAt: new Date().toISOString() };
+};
+
+// After a turn has answered: generate or refresh the title, store it with the conversation and on the backend
+// thread, and resolve with the title to show. The call has its own time limit, since nobody waits on it to stop.
+export const refreshConversationTitle = async (
+  conversationId: string,
+  userToken: string,
+  recordId: string,
+  messages: Message[]
+): Promise<string | undefined> => {
+  // A title the user chose is never replaced
+  const chosen = conversationStore.getSettings(conversationId)?.title;
+  if (chosen) return chosen;
+
+  const current = conversationStore.getTitle(conversationId);
+  const abort = new AbortController();
+  const timer = setTimeout(() => abort.abort(), TITLE_TIMEOUT_MS);
+  try {
+    const provider = getChatProvider();
+    const router = new ModelRouter(provider, loadModelChain(provider.defaultModel, process.env.LLM_TITLE_MODELS));
+    const update = await updateConversationTitle(router, current, messages, abort.signal);
+    if (!update) return current?.text;
+    // Title calls count against the user's quota like the turn itself, under a key of their own
+    const used = extractTokenCount(update.usage);
+    if (used > 0) recordTokenUsage(userToken, used, `${recordId}:title`);
+    if (!conversationStore.setTitle(conversationId, update.title)) return current?.text;
+    enqueueConversationSnapshot(conversationId).catch(() => {});
+    if (update.changed) {
+      await enqueueThreadRecord(conversationId, userToken, `${recordId}:title`, [], { title: update.title.text });
+    }
+    return update.title.text;
+  } catch (error: unknown) {
+    console.warn('Chat: failed to title the conversation', error);
+    return current?.text;
+  } finally {
+    clearTimeout(timer);
+  }
+};
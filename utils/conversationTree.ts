@@ -0,0 +1,187 @@
+import { randomUUID } from 'crypto';
+import { BranchInfo, Message } from '@/types/chat';
+
+// A conversation as a tree of messages. Editing a user message or regenerating a reply adds a
+// sibling instead of overwriting, and the active branch is the path the user is looking at.
+
+export interface MessageNode {
+  id: string;
+  // null for messages at the top of the conversation
+  parentId: string | null;
+  message: Message;
+  children: string[];
+  // The child the active branch continues through; the newest child when unset
+  activeChildId?: string;
+  createdAt: number;
+}
+
+export interface SerializedConversationTree {
+  nodes: MessageNode[];
+  rootIds: string[];
+  activeRootId?: string;
+}
+
+// A branch operation that does not fit the conversation, e.g. editing a message that is not on it
+export class ConversationTreeError extends Error {
+  readonly status = 400;
+  readonly code = 'invalid_branch';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationTreeError';
+  }
+}
+
+// Strip the fields the tree adds to messages it hands out; the timestamp lives on the node
+const toStoredMessage = (message: Message): Message => {
+  const stored = { ...message };
+  delete stored.id;
+  delete stored.branch;
+  delete stored.createdAt;
+  return stored;
+};
+
+const readTimestamp = (value?: string): number => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isFinite(time) ? time : Date.now();
+};
+
+export class ConversationTree {
+  private nodes: Map<string, MessageNode> = new Map();
+  private rootIds: string[] = [];
+  private activeRootId?: string;
+
+  static fromMessages(messages: Message[]): ConversationTree {
+    const tree = new ConversationTree();
+    tree.append(messages);
+    return tree;
+  }
+
+  static fromJSON(data: SerializedConversationTree): ConversationTree {
+    const tree = new ConversationTree();
+    data.nodes.forEach(node => tree.nodes.set(node.id, { ...node, children: [...node.children] }));
+    tree.rootIds = data.rootIds.filter(id => tree.nodes.has(id));
+    tree.activeRootId = data.activeRootId;
+    return tree;
+  }
+
+  toJSON(): SerializedConversationTree {
+    return {
+      nodes: [...this.nodes.values()],
+      rootIds: [...this.rootIds],
+      ...(this.activeRootId ? { activeRootId: this.activeRootId } : {}),
+    };
+  }
+
+  get(nodeId: string): MessageNode | undefined {
+    return this.nodes.get(nodeId);
+  }
+
+  private childrenOf(parentId: string | null): string[] {
+    if (parentId === null) return this.rootIds;
+    return this.nodes.get(parentId)?.children ?? [];
+  }
+
+  private activeChildOf(parentId: string | null): string | undefined {
+    const children = this.childrenOf(parentId);
+    const selected = parentId === null ? this.activeRootId : this.nodes.get(parentId)?.activeChildId;
+    return selected && children.includes(selected) ? selected : children[children.length - 1];
+  }
+
+  private setActiveChild(parentId: string | null, childId: string) {
+    if (parentId === null) {
+      this.activeRootId = childId;
+      return;
+    }
+    const parent = this.nodes.get(parentId);
+    if (parent) parent.activeChildId = childId;
+  }
+
+  // Nodes from the top of the conversation down the active branch
+  activeBranch(): MessageNode[] {
+    const branch: MessageNode[] = [];
+    let childId = this.activeChildOf(null);
+    while (childId) {
+      const node = this.nodes.get(childId);
+      if (!node) break;
+      branch.push(node);
+      childId = this.activeChildOf(node.id);
+    }
+    return branch;
+  }
+
+  private branchInfo(node: MessageNode): BranchInfo | undefined {
+    const siblings = this.childrenOf(node.parentId);
+    if (siblings.length < 2) return undefined;
+    return { index: siblings.indexOf(node.id), count: siblings.length, siblingIds: [...siblings] };
+  }
+
+  // The active branch as messages carrying their node id, timestamp and, where there are alternatives, their position
+  messages(): Message[] {
+    return this.activeBranch().map(node => {
+      const branch = this.branchInfo(node);
+      return { ...node.message, id: node.id, createdAt: new Date(node.createdAt).toISOString(), ...(branch ? { branch } : {}) };
+    });
+  }
+
+  // Add messages as a chain under `parentId` (default: the end of the active branch) and make them active.
+  // Messages keep the id and timestamp they arrive with (e.g. reloaded from the conversation store or the backend).
+  append(messages: Message[], parentId?: string | null): MessageNode[] {
+    let parent: string | null = parentId === undefined
+      ? this.activeBranch().slice(-1)[0]?.id ?? null
+      : parentId;
+    if (parent !== null && !this.nodes.has(parent)) {
+      throw new ConversationTreeError(`Unknown message ${parent}`);
+    }
+
+    const added: MessageNode[] = [];
+    messages.forEach(message => {
+      const node: MessageNode = {
+        id: message.id && !this.nodes.has(message.id) ? message.id : randomUUID(),
+        parentId: parent,
+        message: toStoredMessage(message),
+        children: [],
+        createdAt: readTimestamp(message.createdAt),
+      };
+      this.nodes.set(node.id, node);
+      this.childrenOf(parent).push(node.id);
+      this.setActiveChild(parent, node.id);
+      added.push(node);
+      parent = node.id;
+    });
+    return added;
+  }
+
+  // Make the branch through `nodeId` active; below it the previously viewed path is kept
+  activate(nodeId: string) {
+    const path: MessageNode[] = [];
+    let node = this.nodes.get(nodeId);
+    if (!node) throw new ConversationTreeError(`Unknown message ${nodeId}`);
+    while (node) {
+      path.unshift(node);
+      node = node.parentId ? this.nodes.get(node.parentId) : undefined;
+    }
+    path.forEach(step => this.setActiveChild(step.parentId, step.id));
+  }
+
+  // Keep at most `maxMessages` on the active branch by cutting the conversation above them;
+  // alternatives that branch off above the cut go with it
+  trim(maxMessages: number) {
+    const branch = this.activeBranch();
+    if (maxMessages <= 0 || branch.length <= maxMessages) return;
+    const newRoot = branch[branch.length - maxMessages];
+
+    const kept: Map<string, MessageNode> = new Map();
+    const stack = [newRoot.id];
+    while (stack.length > 0) {
+      const node = this.nodes.get(stack.pop() as string);
+      if (!node) continue;
+      kept.set(node.id, node);
+      stack.push(...node.children);
+    }
+    newRoot.parentId = null;
+    this.nodes = kept;
+    this.rootIds = [newRoot.id];
+    this.activeRootId = newRoot.id;
+  }
+}
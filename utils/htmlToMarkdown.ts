@@ -0,0 +1,360 @@
+// Rich-text HTML (as the posts API returns it) back to markdown that `markdownToHtml` turns into
+// equivalent HTML, so edits start from the post's real body. Runs without a DOM, like the sanitizer.
+
+interface ElementNode {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = ElementNode | string;
+
+// ---------------------------------------------------------------------------------------------
+// Parsing
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!?[a-zA-Z][^>]*?>|<\/([a-zA-Z][a-zA-Z0-9-]*)\s*>/g;
+const OPEN_TAG = /^<([a-zA-Z][a-zA-Z0-9-]*)([\s\S]*?)\/?>$/;
+const ATTRIBUTE_PATTERN = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'wbr', 'col', 'area', 'source', 'base']);
+const DROP_CONTENT_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'textarea', 'select', 'title', 'head']);
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'hr', 'table',
+  'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'section', 'article', 'header', 'footer', 'main', 'aside',
+  'nav', 'figure', 'figcaption', 'address', 'details', 'summary', 'dl', 'dt', 'dd', 'center', 'body', 'html',
+]);
+
+// An opening tag that implicitly closes these open elements, as browsers do
+const IMPLIED_CLOSES: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  thead: ['tbody', 'tfoot'],
+  tbody: ['thead', 'tbody', 'tfoot'],
+  tfoot: ['thead', 'tbody'],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•',
+  middot: '·', copy: '©', reg: '®', trade: '™', euro: '€', times: '×',
+};
+
+const decodeEntities = (text: string): string => text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (entity, name: string) => {
+  if (name.startsWith('#')) {
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  }
+  return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+});
+
+const parseAttributes = (raw: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  let match: RegExpExecArray | null;
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  while ((match = ATTRIBUTE_PATTERN.exec(raw)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+// A forgiving tree builder: stray closing tags are ignored and unclosed elements end with their parent
+const parseHtml = (html: string): HtmlNode[] => {
+  const root: ElementNode = { tag: '#root', attributes: {}, children: [] };
+  const stack: ElementNode[] = [root];
+  const current = () => stack[stack.length - 1];
+  const closeTo = (tag: string) => {
+    const index = stack.map(node => node.tag).lastIndexOf(tag);
+    if (index > 0) stack.length = index;
+  };
+  let dropping: string | null = null;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  TOKEN_PATTERN.lastIndex = 0;
+
+  const addText = (raw: string) => {
+    if (raw && !dropping) current().children.push(decodeEntities(raw));
+  };
+
+  while ((match = TOKEN_PATTERN.exec(html)) !== null) {
+    addText(html.slice(lastIndex, match.index));
+    lastIndex = TOKEN_PATTERN.lastIndex;
+    const [token, closingTag] = match;
+    if (token.startsWith('<!')) continue;
+
+    if (closingTag) {
+      const tag = closingTag.toLowerCase();
+      if (dropping) {
+        if (tag === dropping) dropping = null;
+      } else if (tag === 'br') {
+        // `</br>` is read as a line break by browsers
+        current().children.push({ tag: 'br', attributes: {}, children: [] });
+      } else {
+        closeTo(tag);
+      }
+      continue;
+    }
+    if (dropping) continue;
+
+    const open = OPEN_TAG.exec(token);
+    if (!open) continue;
+    const tag = open[1].toLowerCase();
+    if (DROP_CONTENT_TAGS.has(tag)) {
+      if (!token.endsWith('/>')) dropping = tag;
+      continue;
+    }
+
+    (IMPLIED_CLOSES[tag] ?? []).forEach(closed => {
+      const tags = stack.map(node => node.tag);
+      const index = tags.lastIndexOf(closed);
+      // Only close within the nearest list or table, never an outer one
+      const boundary = Math.max(tags.lastIndexOf('ul'), tags.lastIndexOf('ol'), tags.lastIndexOf('table'));
+      if (index > 0 && index > boundary) stack.length = index;
+    });
+    // A block element ends an open paragraph
+    if (BLOCK_TAGS.has(tag) && current().tag === 'p') stack.pop();
+
+    const element: ElementNode = { tag, attributes: parseAttributes(open[2]), children: [] };
+    current().children.push(element);
+    if (!VOID_TAGS.has(tag) && !token.endsWith('/>')) stack.push(element);
+  }
+  addText(html.slice(lastIndex));
+  return root.children;
+};
+
+// ---------------------------------------------------------------------------------------------
+// Inline content
+
+const isElement = (node: HtmlNode): node is ElementNode => typeof node !== 'string';
+
+const textContent = (node: HtmlNode): string => (isElement(node)
+  ? (node.tag === 'br' ? '\n' : node.children.map(textContent).join(''))
+  : node);
+
+// Backslash-escape characters that would otherwise read as markdown syntax
+const escapeText = (text: string): string => text
+  .replace(/[\\`*[\]]/g, '\\$&')
+  .replace(/~~/g, '\\~\\~')
+  .replace(/<(?=[a-zA-Z/!])/g, '\\<')
+  // `_` only matters at a word boundary: snake_case stays as it is
+  .replace(/(^|\W)_|_(?=\W|$)/g, (match: string) => match.replace('_', '\\_'));
+
+// Line starts that would turn a paragraph line into a heading, quote, list, rule or fence
+const escapeLineStart = (line: string): string => line
+  .replace(/^(\s*)(#{1,6}(?=\s|$)|>|[+-](?=\s|$)|-(?=-)|=+\s*$|~~~)/, (_, space: string, marker: string) => `${space}\\${marker}`)
+  .replace(/^(\s*\d{1,9})([.)])(?=\s|$)/, '$1\\$2');
+
+const HARD_BREAK = '\u0001';
+
+// `**` and friends must hug their content, so surrounding whitespace moves outside the markers
+const wrapInline = (content: string, marker: string, closing = marker): string => {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content);
+  if (!match || !match[2]) return content;
+  return `${match[1]}${marker}${match[2]}${closing}${match[3]}`;
+};
+
+const codeSpan = (text: string): string => {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const padded = /^`|`$/.test(text) || /^ .* $/.test(text) ? ` ${text} ` : text;
+  return `${fence}${padded}${fence}`;
+};
+
+// URLs go inside `(...)` as they are when `markdownToHtml` can read them back; otherwise percent-encoded
+const formatUrl = (url: string): string => {
+  const trimmed = url.trim();
+  if (/^[^\s()<>]*(?:\([^\s()<>]*\)[^\s()<>]*)*$/.test(trimmed)) return trimmed;
+  return trimmed.replace(/[\s()<>]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+};
+
+const renderLink = (node: ElementNode, inTable: boolean): string => {
+  const href = node.attributes.href?.trim();
+  const label = renderInline(node.children, inTable);
+  if (!href) return label;
+  if (textContent(node).trim() === href && /^(?:https?:\/\/|mailto:)[^\s<>]+$/.test(href)) return `<${href}>`;
+  // Titles cannot escape their quotes, so use whichever quote the title does not contain
+  const rawTitle = node.attributes.title?.trim();
+  const quote = rawTitle?.includes('"') ? '\'' : '"';
+  const title = rawTitle && !(rawTitle.includes('"') && rawTitle.includes('\'')) ? ` ${quote}${rawTitle}${quote}` : '';
+  return `[${label.trim() || escapeText(href)}](${formatUrl(href)}${title})`;
+};
+
+const renderInline = (nodes: HtmlNode[], inTable = false): string => nodes.map(node => {
+  if (!isElement(node)) {
+    const text = escapeText(node.replace(/\s+/g, ' '));
+    return inTable ? text.replace(/\|/g, '\\|') : text;
+  }
+  switch (node.tag) {
+    case 'br':
+      // Table cells cannot hold a line break in markdown, so the tag itself is kept
+      return inTable ? '<br>' : HARD_BREAK;
+    case 'strong':
+    case 'b':
+      return wrapInline(renderInline(node.children, inTable), '**');
+    case 'em':
+    case 'i':
+      return wrapInline(renderInline(node.children, inTable), '*');
+    case 'del':
+    case 's':
+    case 'strike':
+      return wrapInline(renderInline(node.children, inTable), '~~');
+    case 'u':
+      // No markdown for underline; the sanitizer lets the tag through
+      return wrapInline(renderInline(node.children, inTable), '<u>', '</u>');
+    case 'code':
+    case 'kbd':
+    case 'samp':
+      return codeSpan(textContent(node).replace(/\s+/g, ' '));
+    case 'a':
+      return renderLink(node, inTable);
+    case 'img':
+      // Images are not kept in post bodies; a link preserves where they pointed
+      return node.attributes.src
+        ? `[${escapeText(node.attributes.alt || 'image')}](${formatUrl(node.attributes.src)})`
+        : escapeText(node.attributes.alt || '');
+    default:
+      return renderInline(node.children, inTable);
+  }
+}).join('');
+
+// Inline content as paragraph lines: whitespace collapsed, hard breaks kept, line starts escaped
+const renderParagraph = (nodes: HtmlNode[]): string => {
+  const text = renderInline(nodes).replace(/ *\u0001 */g, HARD_BREAK).trim();
+  // A run of breaks (as rich-text editors write between paragraphs) is a paragraph break
+  return text
+    .split(/\u0001{2,}/)
+    .map(paragraph => paragraph
+      .replace(/^\u0001+|\u0001+$/g, '')
+      .split(HARD_BREAK)
+      .map(line => escapeLineStart(line.trim()))
+      .join('\\\n'))
+    .filter(paragraph => paragraph.trim())
+    .join('\n\n');
+};
+
+// ---------------------------------------------------------------------------------------------
+// Blocks
+
+const indent = (text: string, prefix: string, firstPrefix = prefix): string => text
+  .split('\n')
+  .map((line, index) => (line ? `${index === 0 ? firstPrefix : prefix}${line}` : line))
+  .join('\n');
+
+const renderCodeBlock = (node: ElementNode): string => {
+  const code = node.children.find(isElement);
+  const language = code && code.tag === 'code'
+    ? /(?:^|\s)(?:language|lang)-([\w+-]+)/.exec(code.attributes.class || '')?.[1] ?? ''
+    : '';
+  const text = textContent(node).replace(/^\n/, '').replace(/\n$/, '');
+  const longest = Math.max(0, ...(text.match(/^ {0,3}`{3,}/gm) ?? []).map(run => run.trim().length));
+  const fence = '`'.repeat(Math.max(3, longest + 1));
+  return `${fence}${language}\n${text}\n${fence}`;
+};
+
+const renderList = (node: ElementNode): string => {
+  const ordered = node.tag === 'ol';
+  const start = Number(node.attributes.start) || 1;
+  const items = node.children.filter((child): child is ElementNode => isElement(child) && child.tag === 'li');
+  // Items holding paragraphs make a loose list, with blank lines between items
+  const loose = items.some(item => item.children.some(child => isElement(child) && child.tag === 'p'));
+  return items.map((item, index) => {
+    const marker = ordered ? `${start + index}. ` : '- ';
+    const body = renderBlocks(item.children, loose ? '\n\n' : '\n');
+    return body ? indent(body, ' '.repeat(marker.length), marker) : marker.trimEnd();
+  }).join(loose ? '\n\n' : '\n');
+};
+
+const cellAlignment = (cell: ElementNode): string | undefined => {
+  const align = cell.attributes.align || /text-align\s*:\s*(left|right|center)/i.exec(cell.attributes.style || '')?.[1];
+  return align?.toLowerCase();
+};
+
+const renderTable = (node: ElementNode): string => {
+  const rows: ElementNode[] = [];
+  const collectRows = (parent: ElementNode) => parent.children.forEach(child => {
+    if (!isElement(child)) return;
+    if (child.tag === 'tr') rows.push(child);
+    else if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') collectRows(child);
+  });
+  collectRows(node);
+  if (rows.length === 0) return '';
+
+  const cells = rows.map(row => row.children.filter((child): child is ElementNode => isElement(child) && (child.tag === 'td' || child.tag === 'th')));
+  const width = Math.max(1, ...cells.map(row => row.length));
+  const formatRow = (row: ElementNode[]) => {
+    const values = row.map(cell => renderInline(cell.children, true).replace(/\s+/g, ' ').trim());
+    while (values.length < width) values.push('');
+    return `| ${values.join(' | ')} |`;
+  };
+  const delimiter = Array.from({ length: width }, (_, index) => {
+    const align = cells[0][index] ? cellAlignment(cells[0][index]) : undefined;
+    if (align === 'center') return ':---:';
+    if (align === 'right') return '---:';
+    if (align === 'left') return ':---';
+    return '---';
+  });
+  return [formatRow(cells[0]), `| ${delimiter.join(' | ')} |`, ...cells.slice(1).map(formatRow)].join('\n');
+};
+
+const renderBlock = (node: ElementNode): string => {
+  const heading = /^h([1-6])$/.exec(node.tag);
+  if (heading) {
+    const text = renderInline(node.children).split(HARD_BREAK).join(' ').replace(/\s+/g, ' ').trim();
+    return text ? `${'#'.repeat(Number(heading[1]))} ${text}` : '';
+  }
+  switch (node.tag) {
+    case 'hr':
+      return '---';
+    case 'pre':
+      return renderCodeBlock(node);
+    case 'ul':
+    case 'ol':
+      return renderList(node);
+    case 'table':
+      return renderTable(node);
+    case 'blockquote':
+      return indent(renderBlocks(node.children), '> ').replace(/^$/gm, '>');
+    case 'li':
+      // A stray item outside any list
+      return indent(renderBlocks(node.children), '  ', '- ');
+    default:
+      return renderBlocks(node.children);
+  }
+};
+
+// Consecutive inline nodes form one paragraph; block elements render on their own. Tight list
+// items join their blocks with a single newline, since a blank line would make the list loose.
+const renderBlocks = (nodes: HtmlNode[], separator = '\n\n'): string => {
+  const blocks: string[] = [];
+  let inline: HtmlNode[] = [];
+  const flushInline = () => {
+    const paragraph = renderParagraph(inline);
+    if (paragraph) blocks.push(paragraph);
+    inline = [];
+  };
+  nodes.forEach(node => {
+    if (isElement(node) && BLOCK_TAGS.has(node.tag)) {
+      flushInline();
+      const block = renderBlock(node);
+      if (block.trim()) blocks.push(block);
+    } else {
+      inline.push(node);
+    }
+  });
+  flushInline();
+  return blocks.join(separator);
+};
+
+export const htmlToMarkdown = (html: string): string => {
+  if (!html) return '';
+  return renderBlocks(parseHtml(html.replace(/\r\n?/g, '\n')))
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
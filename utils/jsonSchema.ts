@@ -0,0 +1,93 @@
+import { JsonSchema, SchemaIssue } from '@/types/tools';
+
+// A deliberately small JSON Schema validator covering the keywords our tool schemas use
+
+const describeType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (type: NonNullable<JsonSchema['type']>, value: unknown): boolean => {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+export const validateJsonSchema = (schema: JsonSchema, value: unknown, path = ''): SchemaIssue[] => {
+  const at = path || '(root)';
+  if (schema.type && !matchesType(schema.type, value)) {
+    return [{ path: at, message: `must be ${schema.type}, got ${describeType(value)}` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    issues.push({ path: at, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      issues.push({ path: at, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path: at, message: `must be at most ${schema.maxLength} characters` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path: at, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path: at, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      issues.push(...validateJsonSchema(schema.items!, item, `${path}[${index}]`));
+    });
+  }
+
+  if (matchesType('object', value) && (schema.properties || schema.required || schema.minProperties !== undefined)) {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    const join = (key: string) => (path ? `${path}.${key}` : key);
+
+    (schema.required ?? []).forEach(key => {
+      if (record[key] === undefined || record[key] === null) {
+        issues.push({ path: join(key), message: 'is required' });
+      }
+    });
+
+    Object.entries(record).forEach(([key, child]) => {
+      const childSchema = properties[key];
+      if (childSchema) {
+        if (child !== undefined && child !== null) {
+          issues.push(...validateJsonSchema(childSchema, child, join(key)));
+        }
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: join(key), message: 'is not an allowed property' });
+      }
+    });
+
+    if (schema.minProperties !== undefined) {
+      const present = Object.values(record).filter(v => v !== undefined && v !== null).length;
+      if (present < schema.minProperties) {
+        issues.push({ path: at, message: `must have at least ${schema.minProperties} propert${schema.minProperties === 1 ? 'y' : 'ies'}` });
+      }
+    }
+  }
+
+  return issues;
+};
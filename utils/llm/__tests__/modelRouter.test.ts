@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Message } from '@/types/chat';
+import { MockProvider, MockRound } from '@/utils/llm/mock';
+import { ModelChainExhaustedError, ModelConfig, ModelRouter } from '@/utils/llm/modelRouter';
+
+// Model IDs are unique per test: the router remembers rate limits and missing tool support across turns
+const chain = (...models: string[]): ModelConfig[] =>
+  models.map(model => ({ model, retries: 0, backoffMs: 0, supportsTools: true }));
+
+const routerFor = (rounds: MockRound[], models: string[]) =>
+  new ModelRouter(new MockProvider({ turns: [{ rounds }] }, 0), chain(...models));
+
+const ask = (content: string): { messages: Message[] } => ({ messages: [{ role: 'user', content }] });
+
+describe('ModelRouter', () => {
+  it('fails over to the next model on an upstream outage', async () => {
+    const router = routerFor([{ error: { status: 503, models: ['outage-a'] }, content: 'Hello from {{input}}' }], ['outage-a', 'outage-b']);
+    const result = await router.complete(ask('b'));
+    expect(result.model).toBe('outage-b');
+    expect(result.message.content).toBe('Hello from b');
+  });
+
+  it('starts later rounds of the turn from the model that answered', async () => {
+    const provider = new MockProvider({ turns: [{ rounds: [{ error: { status: 429, models: ['sticky-a'] }, content: 'ok' }] }] }, 0);
+    const calls: string[] = [];
+    const complete = provider.complete.bind(provider);
+    provider.complete = (request, options) => {
+      calls.push(request.model);
+      return complete(request, options);
+    };
+    const router = new ModelRouter(provider, chain('sticky-a', 'sticky-b'));
+    await router.complete(ask('first'));
+    await router.complete(ask('second'));
+    expect(calls).toEqual(['sticky-a', 'sticky-b', 'sticky-b']);
+  });
+
+  it('does not fail over on a request the upstream rejects', async () => {
+    const router = routerFor([{ error: { status: 400, message: 'bad request', models: ['invalid-a'] }, content: 'unused' }], ['invalid-a', 'invalid-b']);
+    await expect(router.complete(ask('hi'))).rejects.toThrow('bad request');
+  });
+
+  it('reports every attempt when the whole chain fails', async () => {
+    const router = routerFor([{ error: { status: 502, message: 'upstream down' } }], ['down-a', 'down-b']);
+    const error = await router.complete(ask('hi')).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ModelChainExhaustedError);
+    expect(error).toMatchObject({ status: 503, attempts: ['down-a (upstream down)', 'down-b (upstream down)'] });
+  });
+
+  it('skips models without tool support when the turn offers tools', async () => {
+    const router = new ModelRouter(new MockProvider({ turns: [{ rounds: [{ content: 'done' }] }] }, 0), [
+      { model: 'tools-a', retries: 0, backoffMs: 0, supportsTools: false },
+      ...chain('tools-b'),
+    ]);
+    const result = await router.complete({
+      ...ask('hi'),
+      tools: [{ type: 'function', function: { name: 'find_content', description: 'Search', parameters: { type: 'object', properties: {} } } }],
+    });
+    expect(result.model).toBe('tools-b');
+  });
+
+  it('stops without failing over when the turn is cancelled', async () => {
+    const abort = new AbortController();
+    abort.abort();
+    const router = routerFor([{ error: { status: 503, models: ['cancel-a'] }, content: 'unused' }], ['cancel-a', 'cancel-b']);
+    await expect(router.complete(ask('hi'), { signal: abort.signal })).rejects.not.toBeInstanceOf(ModelChainExhaustedError);
+  });
+});
+
+describe('MockProvider', () => {
+  it('plays a tool round, then answers once the results are in', async () => {
+    const provider = new MockProvider({
+      turns: [{ match: 'bike', rounds: [{ tool_calls: [{ name: 'find_content', arguments: { query: '{{input}}' } }] }, { content: 'Found it.' }] }],
+    }, 0);
+    const first = await provider.complete({ model: 'mock', ...ask('bike lanes') });
+    expect(first.message.tool_calls?.[0].function).toEqual({ name: 'find_content', arguments: JSON.stringify({ query: 'bike lanes' }) });
+
+    const second = await provider.complete({
+      model: 'mock',
+      messages: [...ask('bike lanes').messages, first.message, { role: 'tool', tool_call_id: first.message.tool_calls![0].id, content: '[]' }],
+    });
+    expect(second.message).toEqual({ role: 'assistant', content: 'Found it.' });
+  });
+
+  it('answers in text when the caller rules out tool calls', async () => {
+    const provider = new MockProvider({
+      turns: [{ rounds: [{ tool_calls: [{ name: 'find_content', arguments: {} }] }, { content: 'Plain answer' }] }],
+    }, 0);
+    const result = await provider.complete({ model: 'mock', ...ask('hi'), toolChoice: 'none' });
+    expect(result.message).toEqual({ role: 'assistant', content: 'Plain answer' });
+  });
+});
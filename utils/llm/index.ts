@@ -0,0 +1,58 @@
+import { LLMProvider } from '@/types/llm';
+import { OpenAICompatibleProvider } from '@/utils/llm/openAICompatible';
+import { MockProvider, loadMockScript } from '@/utils/llm/mock';
+
+export type ProviderName = 'openrouter' | 'openai-compatible' | 'mock';
+
+const createOpenRouterProvider = (): LLMProvider => {
+  if (!process.env.OPENROUTER_API_KEY) {
+    throw new Error('OpenRouter API key is not configured');
+  }
+  return new OpenAICompatibleProvider({
+    name: 'openrouter',
+    baseURL: 'https://openrouter.ai/api/v1',
+    apiKey: process.env.OPENROUTER_API_KEY,
+    defaultModel: process.env.OPENROUTER_MODEL || 'mistralai/mistral-7b-instruct:free',
+    headers: {
+      'HTTP-Referer': process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000',
+      'X-Title': 'AI Chat Assistant',
+    },
+  });
+};
+
+const createOpenAICompatibleProvider = (): LLMProvider => {
+  if (!process.env.LLM_BASE_URL) {
+    throw new Error('LLM_BASE_URL must be set when LLM_PROVIDER=openai-compatible');
+  }
+  if (!process.env.LLM_MODEL) {
+    throw new Error('LLM_MODEL must be set when LLM_PROVIDER=openai-compatible');
+  }
+  return new OpenAICompatibleProvider({
+    name: 'openai-compatible',
+    baseURL: process.env.LLM_BASE_URL,
+    apiKey: process.env.LLM_API_KEY,
+    defaultModel: process.env.LLM_MODEL,
+    // Local models can be slow to load on first use
+    timeoutMs: Number(process.env.LLM_TIMEOUT_MS || 120_000),
+  });
+};
+
+const providerFactories: Record<ProviderName, () => LLMProvider> = {
+  'openrouter': createOpenRouterProvider,
+  'openai-compatible': createOpenAICompatibleProvider,
+  'mock': () => new MockProvider(loadMockScript(process.env.LLM_MOCK_SCRIPT)),
+};
+
+let cachedProvider: LLMProvider | undefined;
+
+// Resolve the provider named by LLM_PROVIDER (defaults to OpenRouter) once per server process
+export const getChatProvider = (): LLMProvider => {
+  if (cachedProvider) return cachedProvider;
+  const name = (process.env.LLM_PROVIDER || 'openrouter').toLowerCase() as ProviderName;
+  const factory = providerFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}". Expected one of: ${Object.keys(providerFactories).join(', ')}`);
+  }
+  cachedProvider = factory();
+  return cachedProvider;
+};
@@ -0,0 +1,175 @@
+import fs from 'fs';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { Message } from '@/types/chat';
+import { CompletionOptions, CompletionRequest, CompletionResult, LLMProvider } from '@/types/llm';
+import { sleep, throwIfAborted } from '@/utils/abort';
+
+// A scripted provider for offline development and tests.
+// Each turn is picked by matching the latest user message; its rounds are replayed one per
+// model call, so a turn can issue tool calls and then answer once the tool results come back.
+// A round can also fail like an upstream HTTP error, to exercise retries and failover.
+
+export interface MockError {
+  status: number;
+  message?: string;
+  // Only calls to these models fail; the others play the round as usual. Omit to fail every model
+  models?: string[];
+}
+
+export interface MockRound {
+  content?: string;
+  tool_calls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+  error?: MockError;
+}
+
+export interface MockTurn {
+  // Case-insensitive regular expression tested against the latest user message; omit for a catch-all
+  match?: string;
+  rounds: MockRound[];
+}
+
+export interface MockScript {
+  turns: MockTurn[];
+}
+
+const MOCK_POST = {
+  title: 'Protected bike lanes on arterial roads',
+  description: '## Summary\nSeparate cyclists from traffic with curbs or planters.\n\n- Fewer collisions\n- More people cycling',
+  content_type: 'idea',
+  parent_id: '7',
+};
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  turns: [
+    {
+      match: '^(yes|yep|confirm|approve|publish)',
+      rounds: [
+        { tool_calls: [{ name: 'create_content', arguments: { ...MOCK_POST, confirm: true, confirmation_ticket: '{{ticket}}' } }] },
+        { content: 'Your idea **{{title}}** has been published.' },
+      ],
+    },
+    {
+      match: '\\b(create|add|new)\\b.*\\bidea\\b',
+      rounds: [
+        { tool_calls: [{ name: 'find_content', arguments: { query: 'bike', type: 'problem' } }] },
+        { tool_calls: [{ name: 'create_content', arguments: MOCK_POST }] },
+        { content: 'Here is a preview of your idea **{{title}}**. Reply "yes" to publish it.' },
+      ],
+    },
+    {
+      match: '\\b(search|find|browse|look)\\b',
+      rounds: [
+        { tool_calls: [{ name: 'find_content', arguments: { query: '{{input}}', type: 'all' } }] },
+        { content: 'Here is what I found on Needpedia for "{{input}}".' },
+      ],
+    },
+    {
+      rounds: [{ content: 'Mock reply to: {{input}}' }],
+    },
+  ],
+};
+
+const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4);
+
+const fillTemplate = (template: string, values: Record<string, string>): string => {
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+};
+
+const fillArguments = (args: Record<string, unknown>, values: Record<string, string>): Record<string, unknown> => {
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => [
+    key,
+    typeof value === 'string' ? fillTemplate(value, values) : value,
+  ]));
+};
+
+// Shaped like what axios throws for an HTTP error response, which is what ModelRouter inspects
+const toUpstreamError = (error: MockError): AxiosError => {
+  const message = error.message || `Mock upstream error ${error.status}`;
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(message, AxiosError.ERR_BAD_RESPONSE, config, undefined, {
+    status: error.status,
+    statusText: '',
+    headers: {},
+    config,
+    data: { error: { message } },
+  });
+};
+
+export const loadMockScript = (scriptPath?: string): MockScript => {
+  if (!scriptPath) return DEFAULT_MOCK_SCRIPT;
+  const parsed = JSON.parse(fs.readFileSync(scriptPath, 'utf-8')) as MockScript;
+  if (!parsed || !Array.isArray(parsed.turns)) {
+    throw new Error(`Mock script ${scriptPath} must contain a "turns" array`);
+  }
+  return parsed;
+};
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly defaultModel = 'mock/scripted';
+  private script: MockScript;
+  private delayMs: number;
+
+  constructor(script: MockScript = DEFAULT_MOCK_SCRIPT, delayMs = Number(process.env.LLM_MOCK_DELAY_MS || 0)) {
+    this.script = script;
+    this.delayMs = delayMs;
+  }
+
+  async complete(request: CompletionRequest, options: CompletionOptions = {}): Promise<CompletionResult> {
+    const { messages } = request;
+    const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+    const input = lastUserIndex >= 0 ? messages[lastUserIndex].content : '';
+    // Every assistant message after the user's message is a round already played for this turn
+    const roundIndex = messages.slice(lastUserIndex + 1).filter(m => m.role === 'assistant').length;
+
+    const turn = this.script.turns.find(t => !t.match || new RegExp(t.match, 'i').test(input));
+    const rounds = turn?.rounds ?? [];
+    let round: MockRound = rounds[Math.min(roundIndex, rounds.length - 1)] ?? { content: '' };
+    if (round.error && (!round.error.models || round.error.models.includes(request.model))) {
+      throwIfAborted(options.signal);
+      throw toUpstreamError(round.error);
+    }
+    // Tool calls cannot be made when the caller forces a text answer
+    if (round.tool_calls && (request.toolChoice === 'none' || roundIndex >= rounds.length)) {
+      round = { content: rounds.find(r => r.content)?.content ?? '' };
+    }
+
+    // The most recent confirmation ticket the server has handed out or approved in this context
+    const ticket = messages
+      .map(m => /"confirmation_ticket":\s*"([^"]+)"/.exec(m.content || '')?.[1])
+      .filter((id): id is string => Boolean(id))
+      .pop() ?? '';
+    const values: Record<string, string> = { input, title: MOCK_POST.title, ticket };
+    const message: Message = { role: 'assistant', content: fillTemplate(round.content ?? '', values) };
+    if (round.tool_calls && round.tool_calls.length > 0) {
+      message.tool_calls = round.tool_calls.map((call, i) => ({
+        id: `mock_call_${roundIndex}_${i}`,
+        type: 'function',
+        function: {
+          name: call.name,
+          arguments: JSON.stringify(fillArguments(call.arguments, values)),
+        },
+      }));
+    }
+
+    throwIfAborted(options.signal);
+    if (options.onDelta && message.content) {
+      for (const word of message.content.split(/(?<=\s)/)) {
+        // LLM_MOCK_DELAY_MS slows streaming down, e.g. to try the Stop button
+        if (this.delayMs > 0) await sleep(this.delayMs, options.signal);
+        options.onDelta(word);
+      }
+    }
+
+    const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    const completionTokens = estimateTokens(message.content) + estimateTokens(JSON.stringify(message.tool_calls ?? ''));
+    return {
+      message,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+}
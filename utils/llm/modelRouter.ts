@@ -0,0 +1,180 @@
+import axios from 'axios';
+import { CompletionOptions, CompletionRequest, CompletionResult, LLMProvider } from '@/types/llm';
+import { isAbortError, sleep, throwIfAborted } from '@/utils/abort';
+
+export interface ModelConfig {
+  model: string;
+  // Extra attempts on the same model before failing over to the next one
+  retries: number;
+  // Base delay for exponential backoff between attempts; Retry-After wins when the upstream sends it
+  backoffMs: number;
+  // Set to false for models that reject `tools`; they are only used for turns that need no tool calls
+  supportsTools: boolean;
+}
+
+const DEFAULT_RETRIES = Number(process.env.LLM_MODEL_RETRIES || 1);
+const DEFAULT_BACKOFF_MS = Number(process.env.LLM_RETRY_BACKOFF_MS || 750);
+const MAX_BACKOFF_MS = 10_000;
+const RATE_LIMIT_COOLDOWN_MS = 30_000;
+
+// Models that answered 429 recently are skipped by later turns until the cooldown expires
+const cooldownUntil: Map<string, number> = new Map();
+// Models that turned out not to support tools at runtime (e.g. OpenRouter "No endpoints found that support tool use")
+const learnedNoToolModels: Set<string> = new Set();
+
+export class ModelChainExhaustedError extends Error {
+  readonly status: number;
+  readonly attempts: string[];
+
+  constructor(attempts: string[], status: number) {
+    super(`All configured models failed: ${attempts.join('; ') || 'no model can serve this request'}`);
+    this.name = 'ModelChainExhaustedError';
+    this.status = status;
+    this.attempts = attempts;
+  }
+}
+
+type ModelConfigInput = string | (Partial<ModelConfig> & { model: string });
+
+const toModelConfig = (input: ModelConfigInput): ModelConfig => {
+  const entry = typeof input === 'string' ? { model: input } : input;
+  return {
+    model: entry.model.trim(),
+    retries: entry.retries ?? DEFAULT_RETRIES,
+    backoffMs: entry.backoffMs ?? DEFAULT_BACKOFF_MS,
+    supportsTools: entry.supportsTools ?? true,
+  };
+};
+
+// LLM_MODELS is either a comma-separated list of model IDs or a JSON array of ModelConfig objects;
+// other chains (e.g. LLM_TITLE_MODELS) use the same format and fall back to LLM_MODELS when unset
+export const loadModelChain = (defaultModel: string, configured?: string): ModelConfig[] => {
+  const raw = (configured || process.env.LLM_MODELS || '').trim();
+  if (!raw) return [toModelConfig(defaultModel)];
+
+  const entries: ModelConfigInput[] = raw.startsWith('[')
+    ? JSON.parse(raw) as ModelConfigInput[]
+    : raw.split(',').filter(model => model.trim().length > 0);
+  const chain = entries.map(toModelConfig).filter(entry => entry.model.length > 0);
+  return chain.length > 0 ? chain : [toModelConfig(defaultModel)];
+};
+
+const getStatus = (error: unknown): number | undefined => {
+  return axios.isAxiosError(error) ? error.response?.status : undefined;
+};
+
+const getUpstreamMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { error?: string | { message?: string } } | undefined;
+    const detail = typeof data?.error === 'string' ? data.error : data?.error?.message;
+    return detail || error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Rate limits, upstream outages and dropped connections are worth another attempt
+const isTransientError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  if (status === undefined) return true;
+  return status === 408 || status === 429 || status >= 500;
+};
+
+const isToolSupportError = (error: unknown): boolean => {
+  return getStatus(error) === 404 && /tool/i.test(getUpstreamMessage(error));
+};
+
+const getRetryAfterMs = (error: unknown): number | undefined => {
+  if (!axios.isAxiosError(error)) return undefined;
+  const header = error.response?.headers?.['retry-after'];
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+};
+
+const needsTools = (request: Omit<CompletionRequest, 'model'>): boolean => {
+  const offersTools = (request.tools?.length ?? 0) > 0 && request.toolChoice !== 'none';
+  const hasToolHistory = request.messages.some(m => m.role === 'tool' || (m.tool_calls?.length ?? 0) > 0);
+  return offersTools || hasToolHistory;
+};
+
+// Walks an ordered model chain for one chat turn. Once a model fails over, later rounds of the
+// same turn start from the model that last answered instead of retrying the failed ones.
+export class ModelRouter {
+  private provider: LLMProvider;
+  private chain: ModelConfig[];
+  private activeIndex = 0;
+
+  constructor(provider: LLMProvider, chain: ModelConfig[]) {
+    this.provider = provider;
+    this.chain = chain;
+  }
+
+  async complete(
+    request: Omit<CompletionRequest, 'model'>,
+    options: CompletionOptions = {}
+  ): Promise<CompletionResult & { model: string }> {
+    const toolsRequired = needsTools(request);
+    const attempts: string[] = [];
+    let lastStatus: number | undefined;
+
+    for (let index = this.activeIndex; index < this.chain.length; index++) {
+      const entry = this.chain[index];
+      const canUseTools = entry.supportsTools && !learnedNoToolModels.has(entry.model);
+      if (toolsRequired && !canUseTools) {
+        attempts.push(`${entry.model} (skipped: no tool support)`);
+        continue;
+      }
+      const isLastCandidate = index === this.chain.length - 1;
+      if (!isLastCandidate && (cooldownUntil.get(entry.model) ?? 0) > Date.now()) {
+        attempts.push(`${entry.model} (skipped: rate limited)`);
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= entry.retries; attempt++) {
+        throwIfAborted(options.signal);
+        // Retrying after text has reached the client would duplicate it, so only retry clean failures
+        let streamed = false;
+        const onDelta = options.onDelta;
+        try {
+          const result = await this.provider.complete(
+            { ...request, model: entry.model, tools: canUseTools ? request.tools : undefined },
+            {
+              ...options,
+              onDelta: onDelta ? (content: string) => { streamed = true; onDelta(content); } : undefined,
+            }
+          );
+          this.activeIndex = index;
+          return { ...result, model: entry.model };
+        } catch (error: unknown) {
+          // A cancelled turn must not fail over to the next model
+          if (isAbortError(error, options.signal)) throwIfAborted(options.signal);
+          if (streamed) throw error;
+          lastStatus = getStatus(error) ?? lastStatus;
+
+          if (isToolSupportError(error)) {
+            learnedNoToolModels.add(entry.model);
+            attempts.push(`${entry.model} (no tool support)`);
+            break;
+          }
+          if (getStatus(error) === 404) {
+            attempts.push(`${entry.model} (${getUpstreamMessage(error)})`);
+            break;
+          }
+          if (!isTransientError(error)) throw error;
+
+          if (attempt === entry.retries) {
+            if (getStatus(error) === 429) {
+              cooldownUntil.set(entry.model, Date.now() + (getRetryAfterMs(error) ?? RATE_LIMIT_COOLDOWN_MS));
+            }
+            attempts.push(`${entry.model} (${getUpstreamMessage(error)})`);
+            break;
+          }
+          const delay = getRetryAfterMs(error) ?? entry.backoffMs * 2 ** attempt;
+          await sleep(Math.min(delay, MAX_BACKOFF_MS), options.signal);
+        }
+      }
+    }
+
+    throw new ModelChainExhaustedError(attempts, lastStatus === 429 ? 429 : 503);
+  }
+}
@@ -0,0 +1,191 @@
+import axios, { AxiosError, AxiosHeaders, AxiosInstance } from 'axios';
+import http from 'http';
+import https from 'https';
+import { Message } from '@/types/chat';
+import { CompletionOptions, CompletionRequest, CompletionResult, LLMProvider, UsageMetrics } from '@/types/llm';
+import { readSseData } from '@/utils/sse';
+
+// Reuse connections to reduce handshake latency
+const httpAgent = new http.Agent({ keepAlive: true, maxSockets: 50 });
+const httpsAgent = new https.Agent({ keepAlive: true, maxSockets: 50 });
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseURL: string;
+  defaultModel: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+type StreamedToolCall = NonNullable<Message['tool_calls']>[number];
+type CompletionChunk = {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      reasoning?: string | null;
+      tool_calls?: Array<{
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+  }>;
+  usage?: UsageMetrics;
+  // Sent instead of choices when generation fails after the 200 status has gone out, e.g. by OpenRouter
+  error?: { code?: number | string; message?: string };
+};
+
+// Longest error body read off a failed streaming response
+const MAX_ERROR_BODY_CHARS = 16_384;
+
+// Shaped like the AxiosError of a failed response, so ModelRouter classifies it by status and message
+const toStreamError = (error: NonNullable<CompletionChunk['error']>): AxiosError => {
+  const code = Number(error.code);
+  const status = Number.isInteger(code) && code >= 400 && code < 600 ? code : 502;
+  const message = error.message || `Upstream error ${status} during streaming`;
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(message, AxiosError.ERR_BAD_RESPONSE, config, undefined, {
+    status,
+    statusText: '',
+    headers: {},
+    config,
+    data: { error: { message } },
+  });
+};
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<Uint8Array | string> =>
+  typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+
+// A streaming request's error response still has a stream for its body; read it in before the error
+// goes on, so the router sees the upstream's message (e.g. "No endpoints found that support tool use")
+const readStreamedErrorBody = async (error: unknown): Promise<never> => {
+  const response = axios.isAxiosError(error) ? error.response : undefined;
+  if (response && isAsyncIterable(response.data)) {
+    const decoder = new TextDecoder();
+    let text = '';
+    try {
+      for await (const part of response.data) {
+        text += typeof part === 'string' ? part : decoder.decode(part, { stream: true });
+        if (text.length >= MAX_ERROR_BODY_CHARS) break;
+      }
+    } catch {
+      // Whatever arrived before the body broke off is still worth a look
+    }
+    try {
+      response.data = JSON.parse(text);
+    } catch {
+      response.data = { error: text.trim().slice(0, MAX_ERROR_BODY_CHARS) || undefined };
+    }
+  }
+  throw error;
+};
+
+// Rebuild a complete assistant message from OpenAI-style streamed deltas, forwarding text as it arrives
+const readCompletionStream = async (
+  stream: AsyncIterable<Uint8Array>,
+  onDelta: (content: string) => void
+): Promise<CompletionResult> => {
+  let content = '';
+  let reasoning = '';
+  let usage: UsageMetrics | undefined;
+  const toolCalls: StreamedToolCall[] = [];
+
+  for await (const data of readSseData(stream)) {
+    if (data === '[DONE]') break;
+    let chunk: CompletionChunk;
+    try {
+      chunk = JSON.parse(data) as CompletionChunk;
+    } catch {
+      continue;
+    }
+    if (chunk.error) throw toStreamError(chunk.error);
+    if (chunk.usage) usage = chunk.usage;
+
+    const delta = chunk.choices?.[0]?.delta;
+    if (!delta) continue;
+    if (delta.content) {
+      content += delta.content;
+      onDelta(delta.content);
+    }
+    if (delta.reasoning) reasoning += delta.reasoning;
+    delta.tool_calls?.forEach(part => {
+      const index = part.index ?? toolCalls.length;
+      const current = toolCalls[index] ?? { id: '', type: 'function', function: { name: '', arguments: '' } };
+      toolCalls[index] = {
+        ...current,
+        id: part.id || current.id,
+        function: {
+          name: current.function.name + (part.function?.name || ''),
+          arguments: current.function.arguments + (part.function?.arguments || ''),
+        },
+      };
+    });
+  }
+
+  const message: Message = { role: 'assistant', content };
+  if (reasoning) message.reasoning = reasoning;
+  const completedToolCalls = toolCalls.filter(Boolean);
+  if (completedToolCalls.length > 0) message.tool_calls = completedToolCalls;
+  return { message, usage };
+};
+
+// Drop fields the app keeps on stored messages that are not part of the chat completions API
+const LOCAL_MESSAGE_FIELDS = ['cancelled', 'id', 'branch', 'createdAt', 'metadata'] as const;
+
+const toApiMessage = (message: Message): Message => {
+  if (LOCAL_MESSAGE_FIELDS.every(field => message[field] === undefined)) return message;
+  const apiMessage = { ...message };
+  LOCAL_MESSAGE_FIELDS.forEach(field => delete apiMessage[field]);
+  return apiMessage;
+};
+
+// Any server speaking the OpenAI chat completions API: OpenRouter, Ollama, llama.cpp server, vLLM...
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  private client: AxiosInstance;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.defaultModel = config.defaultModel;
+    this.client = axios.create({
+      baseURL: config.baseURL.replace(/\/+$/, ''),
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+        ...config.headers,
+      },
+      httpAgent,
+      httpsAgent,
+      timeout: config.timeoutMs ?? 60_000,
+    });
+  }
+
+  async complete(request: CompletionRequest, options: CompletionOptions = {}): Promise<CompletionResult> {
+    const body = {
+      model: request.model,
+      messages: request.messages.map(toApiMessage),
+      ...(request.tools && request.tools.length > 0
+        ? { tools: request.tools, tool_choice: request.toolChoice ?? 'auto' }
+        : {}),
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+    };
+
+    if (options.onDelta) {
+      const response = await this.client.post(
+        '/chat/completions',
+        { ...body, stream: true, stream_options: { include_usage: true } },
+        { responseType: 'stream', signal: options.signal }
+      ).catch(readStreamedErrorBody);
+      return readCompletionStream(response.data as AsyncIterable<Uint8Array>, options.onDelta);
+    }
+
+    const response = await this.client.post('/chat/completions', body, { signal: options.signal });
+    const message = response.data?.choices?.[0]?.message as Message | undefined;
+    if (!message) {
+      throw new Error(`Invalid response from ${this.name} API`);
+    }
+    return { message, usage: response.data?.usage as UsageMetrics | undefined };
+  }
+}
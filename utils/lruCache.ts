@@ -0,0 +1,81 @@
+// Map bounded by entry count and idle time. Reads and writes move an entry to the back, so the
+// front always holds the least recently used one; expired entries are dropped lazily on access.
+
+export interface LruCacheOptions<V> {
+  maxEntries: number;
+  // Entries neither read nor written for this long are dropped; 0 keeps them until the cache is full
+  idleTtlMs: number;
+  // Entries this returns false for are never dropped, e.g. changes that are not saved yet
+  canEvict?: (key: string, value: V) => boolean;
+}
+
+interface CacheSlot<V> {
+  value: V;
+  touchedAt: number;
+}
+
+export class LruCache<V> {
+  private slots: Map<string, CacheSlot<V>> = new Map();
+  private options: LruCacheOptions<V>;
+
+  constructor(options: LruCacheOptions<V>) {
+    this.options = options;
+  }
+
+  // Counts as a use of the entry
+  get(key: string): V | undefined {
+    this.prune();
+    const slot = this.slots.get(key);
+    if (!slot) return undefined;
+    this.touch(key, slot);
+    return slot.value;
+  }
+
+  // Looks without counting as a use
+  peek(key: string): V | undefined {
+    return this.slots.get(key)?.value;
+  }
+
+  set(key: string, value: V): void {
+    this.touch(key, { value, touchedAt: Date.now() });
+    this.prune(key);
+  }
+
+  // Every entry, least recently used first, without counting as a use
+  values(): V[] {
+    return [...this.slots.values()].map(slot => slot.value);
+  }
+
+  delete(key: string): boolean {
+    return this.slots.delete(key);
+  }
+
+  private touch(key: string, slot: CacheSlot<V>): void {
+    slot.touchedAt = Date.now();
+    this.slots.delete(key);
+    this.slots.set(key, slot);
+  }
+
+  private evictable(key: string, slot: CacheSlot<V>): boolean {
+    return this.options.canEvict ? this.options.canEvict(key, slot.value) : true;
+  }
+
+  // `keep` is the entry just written, which stays even when everything older must stay too
+  private prune(keep?: string): void {
+    const { maxEntries, idleTtlMs } = this.options;
+    if (idleTtlMs > 0) {
+      const cutoff = Date.now() - idleTtlMs;
+      for (const [key, slot] of this.slots) {
+        // Entries are in order of use, so the first recent one ends the expired run
+        if (slot.touchedAt > cutoff) break;
+        if (this.evictable(key, slot)) this.slots.delete(key);
+      }
+    }
+    if (maxEntries > 0 && this.slots.size > maxEntries) {
+      for (const [key, slot] of this.slots) {
+        if (this.slots.size <= maxEntries) break;
+        if (key !== keep && this.evictable(key, slot)) this.slots.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,327 @@
+// CommonMark (plus GFM tables and strikethrough) to HTML for post bodies. Runs without a DOM or
+// dependencies; the output is meant to go through `sanitizeHtml`, which drops anything Needpedia's
+// rich-text fields do not accept, including raw HTML the author typed.
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// ---------------------------------------------------------------------------------------------
+// Inline content
+
+const PLACEHOLDER = /\u0000(\d+)\u0000/g;
+const ESCAPABLE = /\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g;
+const RAW_TAG = /<\/?[a-zA-Z][a-zA-Z0-9-]*(?:\s[^<>]*)?\/?>/g;
+const AUTOLINK = /<((?:https?:\/\/|mailto:)[^\s<>]+)>/g;
+const LINK = /\[((?:[^[\]\\]|\\.)*)\]\(\s*<?([^\s()<>]*(?:\([^\s()<>]*\)[^\s()<>]*)*)>?(?:\s+(?:"([^"]*)"|'([^']*)'))?\s*\)/g;
+const BARE_URL = /(^|[\s(])(https?:\/\/[^\s<]*[^\s<.,:;"'\]!?*_~])/g;
+
+// A closing parenthesis ends a bare URL only when the URL has no opening one for it, as in "(see https://x.org)"
+const splitUnbalancedParens = (url: string): [string, string] => {
+  let end = url.length;
+  let balance = [...url].reduce((sum, char) => sum + (char === '(' ? 1 : char === ')' ? -1 : 0), 0);
+  while (balance < 0 && url[end - 1] === ')') {
+    end--;
+    balance++;
+  }
+  return [url.slice(0, end), url.slice(end)];
+};
+
+const formatInline = (source: string): string => {
+  // Code spans, escapes, links and raw tags are parked behind placeholders so later passes skip them
+  const parked: string[] = [];
+  const park = (html: string): string => `\u0000${parked.push(html) - 1}\u0000`;
+
+  let text = source.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __: string, code: string) => {
+    const trimmed = /^ [\s\S]* $/.test(code) && code.trim() ? code.slice(1, -1) : code;
+    return park(`<code>${escapeHtml(trimmed.replace(/\n/g, ' '))}</code>`);
+  });
+  text = text.replace(ESCAPABLE, (_, char: string) => park(escapeHtml(char)));
+  text = text.replace(AUTOLINK, (_, url: string) => park(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`));
+  text = text.replace(LINK, (_, label: string, url: string, doubleTitle?: string, singleTitle?: string) => {
+    const title = doubleTitle ?? singleTitle;
+    const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+    return park(`<a href="${escapeHtml(url)}"${titleAttribute}>${formatInline(label)}</a>`);
+  });
+  text = text.replace(RAW_TAG, tag => park(tag));
+  text = escapeHtml(text);
+  text = text.replace(BARE_URL, (_, lead: string, match: string) => {
+    const [url, rest] = splitUnbalancedParens(match);
+    return `${lead}${park(`<a href="${url}">${url}</a>`)}${rest}`;
+  });
+
+  text = text
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?=[^\w]|$)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=[^\s*])([^*]*?[^\s*])\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=[^\s_])([^_]*?[^\s_])_(?=[^\w]|$)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+  // Two trailing spaces or a backslash end a line with a hard break
+  text = text.replace(/(?: {2,}|\\)\n/g, '<br>\n');
+
+  // Placeholders can nest (a link label holding a code span), so restore until none are left
+  while (PLACEHOLDER.test(text)) {
+    text = text.replace(PLACEHOLDER, (_, index: string) => parked[Number(index)]);
+  }
+  return text;
+};
+
+// ---------------------------------------------------------------------------------------------
+// Blocks
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)(.*)$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+
+const isBlank = (line: string): boolean => line.trim() === '';
+
+const expandTabs = (line: string): string => line.replace(/^\t+/, tabs => '    '.repeat(tabs.length));
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], index: number): boolean => {
+  const header = lines[index];
+  const delimiter = lines[index + 1];
+  if (!header || !delimiter || !header.includes('|') || !TABLE_DELIMITER.test(delimiter)) return false;
+  return splitTableRow(header).length === splitTableRow(delimiter).length;
+};
+
+// Lines that end a paragraph without a blank line in between
+const interruptsParagraph = (lines: string[], index: number): boolean => {
+  const line = lines[index];
+  if (ATX_HEADING.test(line) || FENCE.test(line) || BLOCKQUOTE.test(line) || THEMATIC_BREAK.test(line)) return true;
+  const item = LIST_ITEM.exec(line);
+  // An ordered list only interrupts a paragraph when it starts at 1, and an empty item never does
+  if (item && item[4].trim() && (!/^\d/.test(item[2]) || /^1[.)]$/.test(item[2]))) return true;
+  return isTableStart(lines, index);
+};
+
+interface ListItem {
+  lines: string[];
+  // Followed by a blank line inside the same list, which makes the list loose
+  endsWithBlank: boolean;
+}
+
+const renderTable = (lines: string[], start: number): { html: string; next: number } => {
+  const header = splitTableRow(lines[start]);
+  const aligns = splitTableRow(lines[start + 1]).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    return left ? 'left' : '';
+  });
+  const cell = (tag: 'th' | 'td', content: string, column: number) => {
+    const align = aligns[column] ? ` align="${aligns[column]}"` : '';
+    return `<${tag}${align}>${formatInline(content)}</${tag}>`;
+  };
+
+  const rows: string[] = [];
+  let index = start + 2;
+  while (index < lines.length && !isBlank(lines[index]) && lines[index].includes('|')) {
+    const cells = splitTableRow(lines[index]);
+    rows.push(`<tr>${header.map((_, column) => cell('td', cells[column] ?? '', column)).join('')}</tr>`);
+    index++;
+  }
+
+  const head = `<thead><tr>${header.map((content, column) => cell('th', content, column)).join('')}</tr></thead>`;
+  const body = rows.length > 0 ? `<tbody>${rows.join('')}</tbody>` : '';
+  return { html: `<table>${head}${body}</table>`, next: index };
+};
+
+const parseList = (lines: string[], start: number): { html: string; next: number } => {
+  const first = LIST_ITEM.exec(lines[start]) as RegExpExecArray;
+  const ordered = /^\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+
+  const items: ListItem[] = [];
+  let index = start;
+  while (index < lines.length) {
+    const match = LIST_ITEM.exec(lines[index]);
+    if (!match || /^\d/.test(match[2]) !== ordered || match[2].slice(-1) !== delimiter) break;
+
+    // Continuation lines must be indented to where the item's text starts
+    const spacing = match[3].length;
+    const contentIndent = match[1].length + match[2].length + (spacing > 4 || spacing === 0 ? 1 : spacing);
+    const item: ListItem = { lines: [match[4]], endsWithBlank: false };
+    index++;
+
+    let pendingBlanks = 0;
+    while (index < lines.length) {
+      const line = expandTabs(lines[index]);
+      if (isBlank(line)) {
+        pendingBlanks++;
+        index++;
+        continue;
+      }
+      const indent = line.length - line.trimStart().length;
+      if (indent >= contentIndent) {
+        for (; pendingBlanks > 0; pendingBlanks--) item.lines.push('');
+        item.lines.push(line.slice(contentIndent));
+        index++;
+        continue;
+      }
+      // Lazy continuation of the item's last paragraph; a less indented list marker starts a new item instead
+      if (pendingBlanks === 0 && !LIST_ITEM.test(line) && !interruptsParagraph(lines, index) && !isBlank(item.lines[item.lines.length - 1] ?? '')) {
+        item.lines.push(line.trim());
+        index++;
+        continue;
+      }
+      break;
+    }
+
+    const nextIsItem = index < lines.length && LIST_ITEM.test(lines[index]);
+    item.endsWithBlank = pendingBlanks > 0 && nextIsItem;
+    items.push(item);
+    if (pendingBlanks > 0 && !nextIsItem) {
+      // Give the trailing blank lines back to the enclosing block
+      index -= pendingBlanks;
+      break;
+    }
+  }
+
+  const loose = items.some((item, position) => (item.endsWithBlank && position < items.length - 1)
+    || item.lines.slice(0, -1).some(isBlank));
+  const body = items.map(item => `<li>${parseBlocks(item.lines, !loose)}</li>`).join('\n');
+  const tag = ordered ? 'ol' : 'ul';
+  const startAttribute = ordered && startNumber !== 1 ? ` start="${startNumber}"` : '';
+  return { html: `<${tag}${startAttribute}>\n${body}\n</${tag}>`, next: index };
+};
+
+// `tight` renders paragraphs without <p>, as inside the items of a tight list
+const parseBlocks = (lines: string[], tight = false): string => {
+  const blocks: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = expandTabs(lines[index]);
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const language = fence[2];
+      const indent = line.length - line.trimStart().length;
+      const code: string[] = [];
+      index++;
+      while (index < lines.length) {
+        const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+        if (closing.test(lines[index])) {
+          index++;
+          break;
+        }
+        code.push(lines[index].replace(new RegExp(`^ {0,${indent}}`), ''));
+        index++;
+      }
+      const languageClass = language ? ` class="language-${escapeHtml(language.replace(/[^\w-]/g, ''))}"` : '';
+      blocks.push(`<pre><code${languageClass}>${escapeHtml(code.join('\n'))}${code.length > 0 ? '\n' : ''}</code></pre>`);
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${formatInline(heading[2] ?? '')}</h${level}>`);
+      index++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      blocks.push('<hr>');
+      index++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && !isBlank(lines[index])) {
+        const current = lines[index];
+        if (BLOCKQUOTE.test(current)) {
+          quoted.push(current.replace(BLOCKQUOTE, ''));
+        } else if (!interruptsParagraph(lines, index) && !isBlank(quoted[quoted.length - 1] ?? '')) {
+          // Lazy continuation of the quoted paragraph
+          quoted.push(current);
+        } else {
+          break;
+        }
+        index++;
+      }
+      blocks.push(`<blockquote>\n${parseBlocks(quoted)}\n</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = parseList(lines, index);
+      blocks.push(list.html);
+      index = list.next;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const table = renderTable(lines, index);
+      blocks.push(table.html);
+      index = table.next;
+      continue;
+    }
+
+    if (INDENTED_CODE.test(line)) {
+      const code: string[] = [];
+      while (index < lines.length && (INDENTED_CODE.test(expandTabs(lines[index])) || isBlank(lines[index]))) {
+        code.push(expandTabs(lines[index]).slice(4));
+        index++;
+      }
+      while (code.length > 0 && isBlank(code[code.length - 1])) code.pop();
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}\n</code></pre>`);
+      continue;
+    }
+
+    // Paragraph, possibly turned into a heading by a setext underline
+    // Trailing spaces stay until the paragraph is joined: two of them end the line with a hard break
+    const paragraph: string[] = [line.trimStart()];
+    index++;
+    let setextLevel = 0;
+    while (index < lines.length && !isBlank(lines[index])) {
+      const underline = SETEXT_UNDERLINE.exec(lines[index]);
+      if (underline) {
+        setextLevel = underline[1][0] === '=' ? 1 : 2;
+        index++;
+        break;
+      }
+      if (interruptsParagraph(lines, index)) break;
+      paragraph.push(lines[index].replace(/^[ \t]+/, ''));
+      index++;
+    }
+    const content = formatInline(paragraph.join('\n').replace(/[ \t]+$/, ''));
+    if (setextLevel > 0) {
+      blocks.push(`<h${setextLevel}>${content}</h${setextLevel}>`);
+    } else {
+      blocks.push(tight ? content : `<p>${content}</p>`);
+    }
+  }
+
+  return blocks.join('\n');
+};
+
+// Markdown to (unsanitized) HTML
+export const markdownToHtml = (markdown: string): string => {
+  const lines = (markdown || '').replace(/\r\n?/g, '\n').split('\n');
+  return parseBlocks(lines);
+};
@@ -1,29 +1,237 @@
-import { Message } from '@/types/chat';
+import { ChatThreadSettings, ConversationSummary, ConversationTitle, Message } from '@/types/chat';
+import { StoredConversation } from '@/types/storage';
+import { ConversationTree } from '@/utils/conversationTree';
+import { LruCache } from '@/utils/lruCache';
+import { conversationSearchIndex } from '@/utils/conversationSearch';
+import { getConversationStore } from '@/utils/storage';
 
 type ConversationHistory = Message[];
 
-class InMemoryConversationStore {
-  private store: Map<string, ConversationHistory> = new Map();
+// Cap on messages kept on a conversation's active branch
+export const MAX_STORED_MESSAGES = Number(process.env.CHAT_MAX_STORED || 64);
 
+// Conversations held in this process; the least recently used are dropped beyond this
+const MAX_CACHED_CONVERSATIONS = Number(process.env.CHAT_CACHE_MAX_CONVERSATIONS || 200);
+// Conversations nobody touched for this long are dropped too
+const CACHE_IDLE_TTL_MS = Number(process.env.CHAT_CACHE_IDLE_TTL_MS || 30 * 60_000);
+
+interface CachedConversation {
+  tree?: ConversationTree;
+  summary?: ConversationSummary;
+  settings?: ChatThreadSettings;
+  title?: ConversationTitle;
+  owner?: string;
+  updatedAt: string;
+  // Bumped by every change; `savedRevision` catches up once the store has it, or once saving is given up
+  revision: number;
+  savedRevision: number;
+}
+
+// The working copy of recent conversations, in front of the configured ConversationStore. Routes read
+// through it with `load` and write through it with `save` (via the outbox's conversation snapshots);
+// changes not saved yet are not dropped, so a full cache cannot lose a turn. When the outbox gives up on
+// a save, `abandonSave` hands the conversation over to its dead entry and lets the cache drop it.
+class CachedConversationStore {
+  private conversations = new LruCache<CachedConversation>({
+    maxEntries: MAX_CACHED_CONVERSATIONS,
+    idleTtlMs: CACHE_IDLE_TTL_MS,
+    canEvict: (_, conversation) => conversation.savedRevision >= conversation.revision
+  });
+  private loading: Map<string, Promise<ConversationHistory | undefined>> = new Map();
+
+  private change(conversationId: string, update: (conversation: CachedConversation) => void): CachedConversation {
+    const conversation = this.conversations.get(conversationId) ?? { updatedAt: new Date().toISOString(), revision: 0, savedRevision: 0 };
+    update(conversation);
+    conversation.revision += 1;
+    conversation.updatedAt = new Date().toISOString();
+    this.conversations.set(conversationId, conversation);
+    return conversation;
+  }
+
+  // The active branch, each message carrying its node id; only what is cached, see `load`
   get(conversationId: string): ConversationHistory | undefined {
-    return this.store.get(conversationId);
+    return this.conversations.get(conversationId)?.tree?.messages();
   }
 
+  // Replace the conversation with a single linear branch
   set(conversationId: string, history: ConversationHistory): void {
-    this.store.set(conversationId, history);
+    this.change(conversationId, conversation => {
+      conversation.tree = ConversationTree.fromMessages(history);
+    });
   }
 
-  append(conversationId: string, messages: Message[], maxMessages?: number): ConversationHistory {
-    const current = this.store.get(conversationId) ?? [];
-    const updated = [...current, ...messages];
-    const trimmed = maxMessages && maxMessages > 0
-      ? updated.slice(-maxMessages)
-      : updated;
-    this.store.set(conversationId, trimmed);
-    return trimmed;
+  // Cache a copy fetched from elsewhere, e.g. the backend's thread history. It counts as saved, so eviction
+  // may drop it again; the next change writes it to the store along with the change. A conversation cached
+  // in the meantime, e.g. by a turn, is newer and stays as it is.
+  prime(conversationId: string, history: ConversationHistory): void {
+    if (this.conversations.peek(conversationId)) return;
+    this.conversations.set(conversationId, {
+      tree: ConversationTree.fromMessages(history),
+      updatedAt: history[history.length - 1]?.createdAt ?? new Date(0).toISOString(),
+      revision: 0,
+      savedRevision: 0
+    });
+  }
+
+  // Add messages under `parentId` (default: the end of the active branch); a parent with other children forks a branch
+  append(conversationId: string, messages: Message[], maxMessages?: number, parentId?: string | null): ConversationHistory {
+    const conversation = this.change(conversationId, entry => {
+      const tree = entry.tree ?? new ConversationTree();
+      tree.append(messages, parentId);
+      if (maxMessages && maxMessages > 0) tree.trim(maxMessages);
+      entry.tree = tree;
+    });
+    return conversation.tree!.messages();
+  }
+
+  getTree(conversationId: string): ConversationTree | undefined {
+    return this.conversations.get(conversationId)?.tree;
+  }
+
+  setTree(conversationId: string, tree: ConversationTree): void {
+    this.change(conversationId, conversation => {
+      conversation.tree = tree;
+    });
+  }
+
+  // Show the branch running through `messageId`; returns undefined for an unknown conversation
+  switchBranch(conversationId: string, messageId: string): ConversationHistory | undefined {
+    const tree = this.conversations.get(conversationId)?.tree;
+    if (!tree) return undefined;
+    this.change(conversationId, () => tree.activate(messageId));
+    return tree.messages();
+  }
+
+  getSummary(conversationId: string): ConversationSummary | undefined {
+    return this.conversations.get(conversationId)?.summary;
+  }
+
+  setSummary(conversationId: string, summary: ConversationSummary | undefined): void {
+    this.change(conversationId, conversation => {
+      conversation.summary = summary;
+    });
+  }
+
+  getSettings(conversationId: string): ChatThreadSettings | undefined {
+    return this.conversations.get(conversationId)?.settings;
+  }
+
+  setSettings(conversationId: string, settings: ChatThreadSettings): void {
+    this.change(conversationId, conversation => {
+      conversation.settings = settings;
+    });
   }
-}
 
-export const conversationStore = new InMemoryConversationStore();
+  getTitle(conversationId: string): ConversationTitle | undefined {
+    return this.conversations.get(conversationId)?.title;
+  }
+
+  // Titles arrive after their turn; one for a conversation deleted or dropped from the cache since is not
+  // stored, so it cannot bring the conversation back. Returns whether it was stored.
+  setTitle(conversationId: string, title: ConversationTitle): boolean {
+    if (!this.conversations.peek(conversationId)) return false;
+    this.change(conversationId, conversation => {
+      conversation.title = title;
+    });
+    return true;
+  }
+
+  getOwner(conversationId: string): string | undefined {
+    return this.conversations.get(conversationId)?.owner;
+  }
+
+  setOwner(conversationId: string, owner: string): void {
+    this.change(conversationId, conversation => {
+      conversation.owner = owner;
+    });
+  }
+
+  // Read-through: the active branch, filling the cache from the store on a miss; undefined when neither has messages
+  async load(conversationId: string): Promise<ConversationHistory | undefined> {
+    const cached = this.conversations.get(conversationId);
+    if (cached) return cached.tree?.messages();
+    let pending = this.loading.get(conversationId);
+    if (!pending) {
+      pending = this.readThrough(conversationId).finally(() => this.loading.delete(conversationId));
+      this.loading.set(conversationId, pending);
+    }
+    return pending;
+  }
 
+  private async readThrough(conversationId: string): Promise<ConversationHistory | undefined> {
+    const stored = await getConversationStore().load(conversationId);
+    // Changed while the store was read: the cached copy is newer
+    const cached = this.conversations.get(conversationId);
+    if (cached) return cached.tree?.messages();
+    if (!stored) return undefined;
+    // Records written before branching existed only have the flat list
+    const tree = stored.tree
+      ? ConversationTree.fromJSON(stored.tree)
+      : stored.messages.length > 0 ? ConversationTree.fromMessages(stored.messages) : undefined;
+    this.conversations.set(conversationId, {
+      tree,
+      summary: stored.summary,
+      settings: stored.settings,
+      title: stored.title,
+      owner: stored.owner,
+      updatedAt: stored.updatedAt,
+      revision: 0,
+      savedRevision: 0
+    });
+    return tree?.messages();
+  }
+
+  // The conversation as the store keeps it, from the cache when it is there; does not fill the cache
+  async read(conversationId: string): Promise<StoredConversation | null> {
+    return this.toStored(conversationId) ?? getConversationStore().load(conversationId);
+  }
+
+  private toStored(conversationId: string): StoredConversation | undefined {
+    const conversation = this.conversations.peek(conversationId);
+    if (!conversation) return undefined;
+    return {
+      conversationId,
+      messages: conversation.tree?.messages() ?? [],
+      ...(conversation.tree ? { tree: conversation.tree.toJSON() } : {}),
+      ...(conversation.summary ? { summary: conversation.summary } : {}),
+      ...(conversation.settings ? { settings: conversation.settings } : {}),
+      ...(conversation.title ? { title: conversation.title } : {}),
+      ...(conversation.owner ? { owner: conversation.owner } : {}),
+      updatedAt: conversation.updatedAt
+    };
+  }
+
+  // Write-through: hand the cached conversation to the store. Throws on failure; the outbox retries
+  async save(conversationId: string): Promise<void> {
+    const conversation = this.conversations.peek(conversationId);
+    const stored = this.toStored(conversationId);
+    if (!conversation || !stored) return;
+    const revision = conversation.revision;
+    await getConversationStore().save(stored);
+    conversation.savedRevision = Math.max(conversation.savedRevision, revision);
+    if (stored.owner) conversationSearchIndex.update(stored.owner, conversationId, stored.messages);
+  }
+
+  // The store kept failing to save this conversation: return it as it stands, for the caller to keep, and stop
+  // holding it in the cache for a save that will not come. A later change makes it unsaved again.
+  abandonSave(conversationId: string): StoredConversation | undefined {
+    const conversation = this.conversations.peek(conversationId);
+    const stored = this.toStored(conversationId);
+    if (!conversation || !stored) return undefined;
+    conversation.savedRevision = conversation.revision;
+    return stored;
+  }
+
+  isCached(conversationId: string): boolean {
+    return this.conversations.peek(conversationId) !== undefined;
+  }
+
+  // Forget the conversation here, in the store and in search
+  async delete(conversationId: string): Promise<void> {
+    this.conversations.delete(conversationId);
+    conversationSearchIndex.remove(conversationId);
+    await getConversationStore().delete(conversationId);
+  }
+}
 
+export const conversationStore = new CachedConversationStore();
@@ -0,0 +1,501 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ChatThreadSettings, Message } from '@/types/chat';
+import { StoredConversation } from '@/types/storage';
+import { conversationStore } from '@/utils/memory';
+import { getConversationStore } from '@/utils/storage';
+
+// Durable outbox for side effects that must eventually reach the Rails backend (or the conversation store).
+// Entries are persisted before delivery, retried with backoff and sent with a stable Idempotency-Key,
+// so a backend blip delays billing and thread history instead of silently losing them.
+
+const outboxDir = path.join(process.cwd(), 'data', 'outbox');
+const outboxFile = path.join(outboxDir, 'outbox.json');
+// Changes since outbox.json was written, one JSON line each
+const outboxLogFile = path.join(outboxDir, 'outbox.jsonl');
+
+const MAX_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS || 8);
+const BASE_BACKOFF_MS = Number(process.env.OUTBOX_BACKOFF_MS || 2_000);
+const MAX_BACKOFF_MS = 5 * 60_000;
+// Delivered entries are kept this long for inspection
+const DELIVERED_RETENTION_MS = 24 * 60 * 60_000;
+// The log is folded into outbox.json once it has this many lines, or more lines than there are entries
+const COMPACT_MIN_LINES = 500;
+// Credentials are sealed with this before they are written to disk. Without it they are kept in memory
+// only, and entries that need one cannot be delivered after a restart.
+const OUTBOX_SECRET = process.env.OUTBOX_SECRET;
+
+export type OutboxKind = 'token_decrement' | 'chat_thread' | 'chat_messages' | 'chat_thread_update' | 'chat_thread_delete' | 'conversation_snapshot';
+
+export type OutboxStatus = 'pending' | 'delivered' | 'dead';
+
+export interface OutboxEntry {
+  // Idempotency key; enqueuing a key that already exists is a no-op unless the entry is coalescing
+  key: string;
+  kind: OutboxKind;
+  // What is sent to the backend; never holds a credential
+  payload: Record<string, unknown>;
+  // The user token the entry is delivered with; never listed by the inspection route, sealed on disk
+  auth?: string;
+  // Newer enqueues replace the payload of a still-pending entry (e.g. "write the latest snapshot")
+  coalesce?: boolean;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+  deliveredAt?: number;
+}
+
+export type OutboxEntryView = Omit<OutboxEntry, 'auth'>;
+
+// An entry as written to disk
+type PersistedOutboxEntry = Omit<OutboxEntry, 'auth'> & { sealedAuth?: string };
+
+// A log line: the entry's new state, or the removal of a pruned entry
+type OutboxLogLine = PersistedOutboxEntry | { key: string; removed: true };
+
+// Failures that retrying cannot fix, e.g. a 4xx validation error
+class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentDeliveryError';
+  }
+}
+
+const getApiBaseUrl = (): string => process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000';
+
+interface BackendRequestOptions {
+  method?: 'POST' | 'PATCH' | 'DELETE';
+  // Credentials added to the body at delivery; the payload kept on disk never holds them
+  credentials?: Record<string, string>;
+  // Defaults to the entry key; coalescing entries need one per payload
+  idempotencyKey?: string;
+  // Statuses meaning the change is already in place besides 409, e.g. 404 for a delete
+  alreadyApplied?: number[];
+}
+
+const sendToBackend = async (entry: OutboxEntry, endpoint: string, authorization: string, options: BackendRequestOptions = {}) => {
+  const idempotencyKey = options.idempotencyKey ?? entry.key;
+  const response = await fetch(`${getApiBaseUrl()}${endpoint}`, {
+    method: options.method ?? 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': authorization,
+      'Idempotency-Key': idempotencyKey
+    },
+    body: JSON.stringify({ ...entry.payload, ...options.credentials, idempotency_key: idempotencyKey })
+  });
+  // 409 means the backend already applied this key
+  if (response.ok || response.status === 409 || options.alreadyApplied?.includes(response.status)) return;
+
+  const detail = await response.text().catch(() => '');
+  const message = `${endpoint} returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`;
+  const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+  throw retryable ? new Error(message) : new PermanentDeliveryError(message);
+};
+
+// The entry's user token; an entry resumed after a restart without OUTBOX_SECRET no longer has it
+const credentialOf = (entry: OutboxEntry): string => {
+  if (!entry.auth) {
+    throw new PermanentDeliveryError('The user token for this entry was not kept across a restart; set OUTBOX_SECRET to keep it');
+  }
+  return entry.auth;
+};
+
+const HANDLERS: Record<OutboxKind, (entry: OutboxEntry) => Promise<void>> = {
+  // The endpoint names the user by `utoken` in the body
+  token_decrement: entry => sendToBackend(entry, '/api/v1/tokens/decrease', `Bearer ${process.env.POST_TOKEN || ''}`, {
+    credentials: { utoken: credentialOf(entry) }
+  }),
+  chat_thread: entry => sendToBackend(entry, '/api/v1/chat_threads', credentialOf(entry)),
+  chat_messages: entry => sendToBackend(entry, '/api/v1/chat_messages', credentialOf(entry)),
+  chat_thread_update: entry => sendToBackend(entry, `/api/v1/chat_threads/${encodeURIComponent(String(entry.payload.thread_id))}`, credentialOf(entry), {
+    method: 'PATCH',
+    idempotencyKey: `${entry.key}:${String(entry.payload.revision)}`
+  }),
+  chat_thread_delete: entry => sendToBackend(entry, `/api/v1/chat_threads/${encodeURIComponent(String(entry.payload.thread_id))}`, credentialOf(entry), {
+    method: 'DELETE',
+    alreadyApplied: [404]
+  }),
+  // Snapshots write whatever the conversation holds at delivery time, so coalesced entries lose nothing.
+  // A snapshot given up on carries the conversation itself, for a retry after the cache has dropped it.
+  conversation_snapshot: async entry => {
+    const conversationId = String(entry.payload.conversationId || '');
+    if (!conversationId) return;
+    const kept = entry.payload.conversation as StoredConversation | undefined;
+    if (kept && !conversationStore.isCached(conversationId)) await getConversationStore().save(kept);
+    else await conversationStore.save(conversationId);
+  },
+};
+
+const backoffFor = (attempts: number): number => {
+  const delay = BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1);
+  return Math.min(MAX_BACKOFF_MS, delay) + Math.floor(Math.random() * BASE_BACKOFF_MS);
+};
+
+// AES-256-GCM under a key derived from OUTBOX_SECRET, as `iv.tag.ciphertext` in base64
+const sealKey = (): Buffer | undefined => (OUTBOX_SECRET ? createHash('sha256').update(OUTBOX_SECRET).digest() : undefined);
+
+const seal = (value: string): string | undefined => {
+  const key = sealKey();
+  if (!key) return undefined;
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const sealed = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), sealed].map(part => part.toString('base64')).join('.');
+};
+
+// undefined when the secret is missing or has changed
+const unseal = (value: string): string | undefined => {
+  const key = sealKey();
+  const [iv, tag, sealed] = value.split('.').map(part => Buffer.from(part, 'base64'));
+  if (!key || !iv || !tag || !sealed) return undefined;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(sealed), decipher.final()]).toString('utf-8');
+  } catch {
+    return undefined;
+  }
+};
+
+const toPersisted = (entry: OutboxEntry): PersistedOutboxEntry => {
+  const { auth, ...rest } = entry;
+  const sealedAuth = auth ? seal(auth) : undefined;
+  return sealedAuth ? { ...rest, sealedAuth } : rest;
+};
+
+const fromPersisted = (persisted: PersistedOutboxEntry): OutboxEntry => {
+  const { sealedAuth, ...rest } = persisted;
+  const auth = sealedAuth ? unseal(sealedAuth) : undefined;
+  return { ...rest, ...(auth ? { auth } : {}) };
+};
+
+const CREDENTIAL_KEY = /^(u?token|auth|authorization|secret|password|api_?key|[a-z]+_token)$/i;
+
+// Payload values under credential-like keys, at any depth
+const redactCredentials = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(redactCredentials);
+  if (typeof value !== 'object' || value === null) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, inner]) => [
+    key,
+    CREDENTIAL_KEY.test(key) ? '[redacted]' : redactCredentials(inner)
+  ]));
+};
+
+const toView = (entry: OutboxEntry): OutboxEntryView => {
+  const view: OutboxEntry = { ...entry, payload: redactCredentials(entry.payload) as Record<string, unknown> };
+  delete view.auth;
+  return view;
+};
+
+class Outbox {
+  private entries: Map<string, OutboxEntry> = new Map();
+  private loaded: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private logLines = 0;
+  private flushing = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Entries left over from a previous process are resumed on first use: outbox.json, then the log on top
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const parsed = JSON.parse(await fs.readFile(outboxFile, 'utf-8')) as PersistedOutboxEntry[];
+          if (Array.isArray(parsed)) {
+            parsed.forEach(entry => {
+              if (!this.entries.has(entry.key)) this.entries.set(entry.key, fromPersisted(entry));
+            });
+          }
+        } catch {
+          // Missing or unreadable file: start empty
+        }
+        const lines = await fs.readFile(outboxLogFile, 'utf-8').then(raw => raw.split('\n'), () => []);
+        for (const raw of lines) {
+          if (!raw.trim()) continue;
+          let line: OutboxLogLine;
+          try {
+            line = JSON.parse(raw) as OutboxLogLine;
+          } catch {
+            // A crash can only cut the last line short
+            break;
+          }
+          this.logLines++;
+          if ('removed' in line) {
+            this.entries.delete(line.key);
+            continue;
+          }
+          // Lines older than outbox.json are left over from a compaction cut short
+          const current = this.entries.get(line.key);
+          if (!current || current.updatedAt <= line.updatedAt) this.entries.set(line.key, fromPersisted(line));
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  // Appends one log line per changed or removed entry, so a change costs the same however many entries are
+  // kept. Once the log outgrows the entries it is folded into outbox.json, written to a temp file and
+  // renamed into place, and emptied. Writes are serialized.
+  private persist(changed: OutboxEntry[], removed: string[] = []): Promise<void> {
+    const lines: OutboxLogLine[] = [
+      ...changed.map(toPersisted),
+      ...removed.map(key => ({ key, removed: true as const }))
+    ];
+    if (lines.length === 0) return this.writing;
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.mkdir(outboxDir, { recursive: true });
+        await fs.appendFile(outboxLogFile, lines.map(line => `${JSON.stringify(line)}\n`).join(''), 'utf-8');
+        this.logLines += lines.length;
+        if (this.logLines >= Math.max(COMPACT_MIN_LINES, this.entries.size)) await this.compact();
+      } catch (error: unknown) {
+        console.warn('Outbox: failed to persist entries', error);
+      }
+    });
+    return this.writing;
+  }
+
+  private async compact(): Promise<void> {
+    const tempFile = `${outboxFile}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify([...this.entries.values()].map(toPersisted)), 'utf-8');
+    await fs.rename(tempFile, outboxFile);
+    await fs.writeFile(outboxLogFile, '', 'utf-8');
+    this.logLines = 0;
+  }
+
+  // Drops delivered entries past their retention; returns their keys
+  private prune(now: number): string[] {
+    const removed: string[] = [];
+    this.entries.forEach((entry, key) => {
+      if (entry.status === 'delivered' && now - (entry.deliveredAt ?? entry.updatedAt) > DELIVERED_RETENTION_MS) {
+        this.entries.delete(key);
+        removed.push(key);
+      }
+    });
+    return removed;
+  }
+
+  private schedule() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const due = [...this.entries.values()]
+      .filter(entry => entry.status === 'pending')
+      .map(entry => entry.nextAttemptAt);
+    if (due.length === 0) return;
+    const delay = Math.max(0, Math.min(...due) - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, delay);
+    // Never keep a script or test process alive just for retries
+    this.timer.unref?.();
+  }
+
+  async enqueue(input: { key: string; kind: OutboxKind; payload: Record<string, unknown>; auth?: string; coalesce?: boolean }): Promise<OutboxEntryView> {
+    await this.load();
+    const now = Date.now();
+    const existing = this.entries.get(input.key);
+    if (existing && !input.coalesce) {
+      return toView(existing);
+    }
+
+    // A snapshot given up on holds the conversation, which the cache may have dropped since; a newer
+    // snapshot of it carries that copy on
+    const kept = input.kind === 'conversation_snapshot' ? existing?.payload.conversation : undefined;
+    const entry: OutboxEntry = {
+      ...input,
+      ...(kept ? { payload: { ...input.payload, conversation: kept } } : {}),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.entries.set(entry.key, entry);
+    await this.persist([entry]);
+    void this.flush();
+    return toView(entry);
+  }
+
+  // Deliver every due entry once; failures are rescheduled with exponential backoff
+  async flush(): Promise<void> {
+    await this.load();
+    if (this.flushing) return;
+    this.flushing = true;
+    try {
+      const now = Date.now();
+      const due = [...this.entries.values()].filter(entry => entry.status === 'pending' && entry.nextAttemptAt <= now);
+      for (const entry of due) {
+        // A coalescing enqueue may replace the entry while an earlier one is being delivered
+        const current = this.entries.get(entry.key);
+        if (current !== entry) continue;
+        entry.attempts++;
+        try {
+          await HANDLERS[entry.kind](entry);
+          entry.status = 'delivered';
+          entry.deliveredAt = Date.now();
+          entry.lastError = undefined;
+        } catch (error: unknown) {
+          entry.lastError = error instanceof Error ? error.message : String(error);
+          const permanent = error instanceof PermanentDeliveryError;
+          if (permanent || entry.attempts >= MAX_ATTEMPTS) {
+            entry.status = 'dead';
+            console.warn(`Outbox: giving up on ${entry.key} after ${entry.attempts} attempt(s): ${entry.lastError}`);
+            if (entry.kind === 'conversation_snapshot') {
+              // The cache no longer holds on to the changes; they wait here for a retry instead
+              const conversation = conversationStore.abandonSave(String(entry.payload.conversationId || ''));
+              if (conversation) entry.payload = { ...entry.payload, conversation };
+            }
+          } else {
+            entry.nextAttemptAt = Date.now() + backoffFor(entry.attempts);
+          }
+        }
+        entry.updatedAt = Date.now();
+      }
+      const removed = this.prune(Date.now());
+      await this.persist(due.filter(entry => this.entries.get(entry.key) === entry), removed);
+    } finally {
+      this.flushing = false;
+      this.schedule();
+    }
+  }
+
+  // Put a dead (or waiting) entry back at the front of the queue
+  async retry(key: string): Promise<OutboxEntryView | undefined> {
+    await this.load();
+    const entry = this.entries.get(key);
+    if (!entry || entry.status === 'delivered') return entry ? toView(entry) : undefined;
+    entry.status = 'pending';
+    entry.nextAttemptAt = Date.now();
+    entry.updatedAt = Date.now();
+    await this.persist([entry]);
+    await this.flush();
+    return toView(entry);
+  }
+
+  async list(status?: OutboxStatus): Promise<OutboxEntryView[]> {
+    await this.load();
+    return [...this.entries.values()]
+      .filter(entry => !status || entry.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(toView);
+  }
+}
+
+export const outbox = new Outbox();
+
+export interface ThreadMessagePayload {
+  role: string;
+  content: string;
+  created_at?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// Backend thread message for a stored one; id and reply metadata travel in the free-form `metadata`
+export const toThreadMessage = (message: Message, extra: Record<string, unknown> = {}): ThreadMessagePayload => ({
+  role: message.role,
+  content: message.content,
+  ...(message.createdAt ? { created_at: message.createdAt } : {}),
+  metadata: {
+    ...(message.id ? { message_id: message.id } : {}),
+    ...message.metadata,
+    ...extra
+  }
+});
+
+// Queue the token charge for one turn; `turnId` keeps a retried charge from being applied twice.
+// The user token goes in the body at delivery, sealed with the entry until then.
+export const enqueueTokenDecrement = (userToken: string, amount: number, turnId: string) => {
+  return outbox.enqueue({
+    key: `tokens:${turnId}`,
+    kind: 'token_decrement',
+    auth: userToken,
+    payload: { decrement_by: amount }
+  });
+};
+
+// Queue a write of the conversation to the conversation store; pending snapshots of the same conversation coalesce
+export const enqueueConversationSnapshot = (conversationId: string) => {
+  return outbox.enqueue({
+    key: `snapshot:${conversationId}`,
+    kind: 'conversation_snapshot',
+    payload: { conversationId },
+    coalesce: true
+  });
+};
+
+// Queue the backend thread upsert and the messages a turn (or a preview decision) added to it
+export const enqueueThreadRecord = async (
+  conversationId: string,
+  userToken: string,
+  recordId: string,
+  messages: ThreadMessagePayload[],
+  thread: { title?: string; lastMessage?: string } = {}
+) => {
+  const auth = userToken;
+  if (thread.title || thread.lastMessage) {
+    await outbox.enqueue({
+      key: `thread:${conversationId}:${recordId}`,
+      kind: 'chat_thread',
+      auth,
+      payload: {
+        thread_id: conversationId,
+        chat_thread: {
+          thread_id: conversationId,
+          ...(thread.title ? { title: thread.title } : {}),
+          ...(thread.lastMessage ? { last_message: thread.lastMessage } : {})
+        }
+      }
+    });
+  }
+  if (messages.length > 0) {
+    await outbox.enqueue({
+      key: `messages:${conversationId}:${recordId}`,
+      kind: 'chat_messages',
+      auth,
+      payload: {
+        thread_id: conversationId,
+        messages,
+        ...(thread.title ? { title: thread.title } : {}),
+        ...(thread.lastMessage ? { last_message: thread.lastMessage } : {})
+      }
+    });
+  }
+};
+
+// Queue the user's title, pin and archive choices; pending updates of the same thread coalesce to the latest.
+// Without a title the backend keeps the one thread records give it.
+export const enqueueThreadSettings = (conversationId: string, userToken: string, settings: ChatThreadSettings) => {
+  return outbox.enqueue({
+    key: `thread-settings:${conversationId}`,
+    kind: 'chat_thread_update',
+    auth: userToken,
+    payload: {
+      thread_id: conversationId,
+      // Sent as part of the idempotency key, so each new set of choices is applied
+      revision: Date.now(),
+      chat_thread: {
+        ...(settings.title ? { title: settings.title } : {}),
+        pinned: settings.pinned ?? false,
+        archived: settings.archived ?? false
+      }
+    },
+    coalesce: true
+  });
+};
+
+// Queue the removal of the backend thread and its messages. Each deletion gets its own key, so one that
+// ended up dead does not turn later deletions of the same thread into no-ops.
+export const enqueueThreadDeletion = (conversationId: string, userToken: string) => {
+  return outbox.enqueue({
+    key: `thread-delete:${conversationId}:${Date.now()}`,
+    kind: 'chat_thread_delete',
+    auth: userToken,
+    payload: { thread_id: conversationId }
+  });
+};
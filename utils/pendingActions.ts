@@ -0,0 +1,161 @@
+import { Message, PendingAction } from '@/types/chat';
+import { ConfirmationTicket, confirmationTickets } from '@/utils/confirmationTickets';
+import { MAX_STORED_MESSAGES, conversationStore } from '@/utils/memory';
+import { loadConversationHistory } from '@/utils/conversationHistory';
+import { enqueueConversationSnapshot, enqueueThreadRecord, toThreadMessage } from '@/utils/outbox';
+import { executeToolCall } from '@/utils/tools/registry';
+
+// Previewed writes the user can approve, edit or reject directly from the chat UI.
+// Approving runs the write with the previewed arguments; the model is not asked again.
+
+export type ActionDecision = 'approve' | 'reject' | 'edit';
+
+export interface ActionChanges {
+  title?: string;
+  description?: string;
+  // Create the post even though the preview found similar ones
+  allow_duplicate?: boolean;
+}
+
+export interface ActionOutcome {
+  // Messages appended to the conversation to record the decision and its result
+  messages: Message[];
+  pendingActions: PendingAction[];
+}
+
+export class PendingActionError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'PendingActionError';
+    this.status = status;
+  }
+}
+
+const toPendingAction = (ticket: ConfirmationTicket): PendingAction => ({
+  ticketId: ticket.id,
+  tool: ticket.tool,
+  preview: (ticket.preview ?? {}) as PendingAction['preview'],
+  expiresAt: new Date(ticket.expiresAt).toISOString(),
+});
+
+// Approved tickets stay listed until used, so a publish the API turned down can be retried
+const findOpenTickets = (conversationId: string, userToken: string): ConfirmationTicket[] => [
+  ...confirmationTickets.pending(conversationId, userToken),
+  ...confirmationTickets.approved(conversationId, userToken),
+];
+
+export const listPendingActions = (conversationId: string, userToken: string): PendingAction[] => {
+  return findOpenTickets(conversationId, userToken).map(toPendingAction);
+};
+
+const describeTarget = (ticket: ConfirmationTicket): string => {
+  const title = ticket.preview?.title ?? ticket.args.title;
+  if (typeof title === 'string' && title) return `"${title}"`;
+  const contentId = ticket.args.content_id;
+  return typeof contentId === 'string' ? `post #${contentId}` : 'this post';
+};
+
+// Resolves with the messages as stored, with the ids the client needs to edit or branch from them
+const recordInConversation = async (
+  conversationId: string,
+  userToken: string,
+  recordId: string,
+  messages: Message[]
+): Promise<Message[]> => {
+  // Appending to a conversation that is not cached would start it over
+  await loadConversationHistory(conversationId, userToken);
+  const stored = conversationStore.append(conversationId, messages, MAX_STORED_MESSAGES).slice(-messages.length);
+  enqueueConversationSnapshot(conversationId).catch(() => {});
+  const lastMessage = messages[messages.length - 1]?.content;
+  enqueueThreadRecord(
+    conversationId,
+    userToken,
+    recordId,
+    stored.map(m => toThreadMessage(m)),
+    { lastMessage: lastMessage && lastMessage.length > 160 ? `${lastMessage.slice(0, 160)}...` : lastMessage }
+  ).catch((error: unknown) => console.warn('Pending actions: failed to queue thread history', error));
+  return stored;
+};
+
+// Apply edited title/description to the previewed arguments of either write tool
+const applyChanges = (ticket: ConfirmationTicket, changes: ActionChanges): Record<string, unknown> => {
+  const edits = Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => typeof value === 'string' && value.trim().length > 0)
+  );
+  const override = ticket.tool === 'create_content' && changes.allow_duplicate === true;
+  if (Object.keys(edits).length === 0 && !override) {
+    throw new PendingActionError('Provide a new title or description to edit the preview', 400);
+  }
+  if (ticket.tool === 'edit_content') {
+    const current = (ticket.args.changes ?? {}) as Record<string, unknown>;
+    return { ...ticket.args, changes: { ...current, ...edits } };
+  }
+  return { ...ticket.args, ...edits };
+};
+
+// "Create anyway", chosen now or on the preview being edited; it is passed beside the arguments, which the model also writes
+const allowsDuplicate = (ticket: ConfirmationTicket, changes: ActionChanges): boolean => {
+  return ticket.tool === 'create_content' && (changes.allow_duplicate === true || ticket.preview?.allow_duplicate === true);
+};
+
+export const resolvePendingAction = async (
+  conversationId: string,
+  userToken: string,
+  ticketId: string,
+  decision: ActionDecision,
+  changes: ActionChanges = {}
+): Promise<ActionOutcome> => {
+  const ticket = findOpenTickets(conversationId, userToken).find(t => t.id === ticketId);
+  if (!ticket) {
+    throw new PendingActionError('This preview is no longer pending. Ask Lotte for a fresh preview.', 404);
+  }
+  const target = describeTarget(ticket);
+  const context = { conversationId, userToken };
+
+  if (decision === 'reject') {
+    confirmationTickets.discard(ticket.id);
+    const messages: Message[] = [
+      { role: 'user', content: `Rejected the preview of ${target}.` },
+      { role: 'assistant', content: `Okay, I discarded the preview of ${target}. Nothing was published.` },
+    ];
+    const stored = await recordInConversation(conversationId, userToken, `${ticket.id}:reject`, messages);
+    return { messages: stored, pendingActions: listPendingActions(conversationId, userToken) };
+  }
+
+  if (decision === 'edit') {
+    const execution = await executeToolCall(
+      ticket.tool,
+      JSON.stringify(applyChanges(ticket, changes)),
+      { ...context, allowDuplicate: allowsDuplicate(ticket, changes) }
+    );
+    if (!execution.ok) {
+      throw new PendingActionError(execution.result.message, 400);
+    }
+    confirmationTickets.discard(ticket.id);
+    return { messages: [], pendingActions: listPendingActions(conversationId, userToken) };
+  }
+
+  if (!ticket.approvedAt && !confirmationTickets.approve(ticket.id, 'Approved from the preview card')) {
+    throw new PendingActionError(ticket.blockedReason ?? 'This preview can no longer be approved.', 409);
+  }
+  const execution = await executeToolCall(
+    ticket.tool,
+    JSON.stringify({ ...ticket.args, confirm: true, confirmation_ticket: ticket.id }),
+    context
+  );
+  if (!execution.ok) {
+    throw new PendingActionError(execution.result.message, 502);
+  }
+
+  const post = (execution.result as { post?: { title?: string; link?: string } }).post;
+  const verb = ticket.tool === 'edit_content' ? 'Updated' : 'Published';
+  const title = post?.title ? `**${post.title}**` : target;
+  const messages: Message[] = [
+    { role: 'user', content: `Approved the preview of ${target}.` },
+    { role: 'assistant', content: `${verb} ${title}${post?.link ? `: ${post.link}` : '.'}` },
+  ];
+  const stored = await recordInConversation(conversationId, userToken, `${ticket.id}:approve`, messages);
+  return { messages: stored, pendingActions: listPendingActions(conversationId, userToken) };
+};
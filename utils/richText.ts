@@ -0,0 +1,144 @@
+import { markdownToHtml } from '@/utils/markdown';
+import { sanitizeHtml } from '@/utils/sanitizeHtml';
+
+// Conversions between the markdown the model writes and the rich-text HTML Needpedia stores
+
+// Stored rich-text HTML back to markdown that `toRichHtml` turns into equivalent HTML
+export { htmlToMarkdown } from '@/utils/htmlToMarkdown';
+
+// Markdown (CommonMark with GFM tables) to HTML limited to what Needpedia's rich-text fields accept
+export const toRichHtml = (input: string): string => sanitizeHtml(markdownToHtml(input || ''));
+
+const decodeEntities = (text: string): string => text
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, '\'')
+  .replace(/&amp;/g, '&');
+
+const PLAIN_TEXT_TOKEN = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)[^>]*>/g;
+const PLAIN_TEXT_BLOCKS = new Set(['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'section', 'article', 'table']);
+const PLAIN_TEXT_SKIPPED = new Set(['script', 'style']);
+
+// Readable plain text that keeps the structure: list markers and nesting, quotes, code blocks, table rows
+export const htmlToPlainText = (html: string): string => {
+  if (!html) return '';
+  const lines: string[] = [];
+  // `indent` lines up an item's later paragraphs with the text after its marker
+  const lists: Array<{ ordered: boolean; index: number; indent: string }> = [];
+  let current = '';
+  let quoteDepth = 0;
+  let inPre = false;
+  let skipping: string | null = null;
+
+  const prefix = () => '> '.repeat(quoteDepth);
+  const flush = () => {
+    if (current.trim() || inPre) lines.push(`${prefix()}${current}`.trimEnd());
+    current = '';
+  };
+  // Inside a list item, the next line starts at the item's text
+  const continueItem = () => {
+    current = lists[lists.length - 1]?.indent ?? '';
+  };
+  const isSeparator = (line: string) => /^[>\s]*$/.test(line);
+  // End the current block with one blank line
+  const blank = () => {
+    flush();
+    if (lines.length > 0 && !isSeparator(lines[lines.length - 1])) lines.push(prefix().trimEnd());
+  };
+  const addText = (raw: string) => {
+    const text = decodeEntities(raw);
+    if (inPre) {
+      const parts = text.split('\n');
+      parts.forEach((part, position) => {
+        current += part;
+        if (position < parts.length - 1) {
+          lines.push(`${prefix()}${current}`.trimEnd());
+          current = '';
+        }
+      });
+      return;
+    }
+    const collapsed = text.replace(/\s+/g, ' ');
+    current += current.trim() ? collapsed : collapsed.trimStart();
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  PLAIN_TEXT_TOKEN.lastIndex = 0;
+  while ((match = PLAIN_TEXT_TOKEN.exec(html)) !== null) {
+    if (!skipping) addText(html.slice(lastIndex, match.index));
+    lastIndex = PLAIN_TEXT_TOKEN.lastIndex;
+    const [token, closing, rawTag] = match;
+    if (token.startsWith('<!--')) continue;
+    const tag = rawTag.toLowerCase();
+
+    if (skipping) {
+      if (closing && tag === skipping) skipping = null;
+      continue;
+    }
+    if (PLAIN_TEXT_SKIPPED.has(tag)) {
+      if (!closing) skipping = tag;
+      continue;
+    }
+
+    if (tag === 'ul' || tag === 'ol') {
+      if (closing) {
+        flush();
+        lists.pop();
+        if (lists.length === 0) blank();
+        else continueItem();
+      } else {
+        if (lists.length === 0) blank();
+        else flush();
+        const start = /\sstart\s*=\s*["']?(\d+)/i.exec(token);
+        lists.push({ ordered: tag === 'ol', index: start ? Number(start[1]) - 1 : 0, indent: '' });
+      }
+    } else if (tag === 'li') {
+      flush();
+      const list = lists[lists.length - 1];
+      if (!closing && list) {
+        // Nested lists start where the text of the enclosing item does
+        current = `${lists[lists.length - 2]?.indent ?? ''}${list.ordered ? `${++list.index}.` : '-'} `;
+        list.indent = ' '.repeat(current.length);
+      }
+    } else if (tag === 'p' && lists.length > 0) {
+      // The first paragraph of a loose list item stays on the item's line, later ones are indented under it
+      if (current.trim() && !/^\s*(?:-|\d+\.)\s*$/.test(current)) {
+        flush();
+        continueItem();
+      }
+    } else if (tag === 'blockquote') {
+      blank();
+      if (closing) {
+        // Drop the quote's own trailing separator before leaving it
+        if (lines.length > 0 && isSeparator(lines[lines.length - 1])) lines.pop();
+        quoteDepth = Math.max(0, quoteDepth - 1);
+        blank();
+      } else {
+        quoteDepth++;
+      }
+    } else if (tag === 'pre') {
+      blank();
+      inPre = !closing;
+    } else if (tag === 'tr') {
+      flush();
+    } else if ((tag === 'td' || tag === 'th') && !closing) {
+      if (current.trim()) current += ' | ';
+    } else if (tag === 'br') {
+      flush();
+      if (lists.length > 0) continueItem();
+    } else if (tag === 'hr') {
+      blank();
+      lines.push(`${prefix()}---`);
+      blank();
+    } else if (PLAIN_TEXT_BLOCKS.has(tag)) {
+      blank();
+    }
+  }
+  if (!skipping) addText(html.slice(lastIndex));
+  flush();
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
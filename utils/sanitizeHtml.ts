@@ -0,0 +1,110 @@
+// Allowlist HTML sanitizer for post bodies. Runs without a DOM so it works on the server and in the browser.
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'strong', 'b', 'em', 'i', 'u', 's', 'del',
+  'ul', 'ol', 'li', 'blockquote', 'pre', 'code', 'a',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td',
+]);
+
+const VOID_TAGS = new Set(['br', 'hr']);
+
+// Elements whose content must never be shown, not just their tags
+const DROP_CONTENT_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'textarea', 'select', 'title', 'head']);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  ol: ['start'],
+  code: ['class'],
+  th: ['align'],
+  td: ['align'],
+};
+
+const SAFE_URL = /^(https?:|mailto:|\/|#)/i;
+const SAFE_CLASS = /^language-[\w-]+$/;
+const SAFE_ALIGN = /^(left|right|center)$/i;
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^>]*?)?)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const escapeAttribute = (value: string): string => value
+  .replace(/&(?!(?:[a-zA-Z]+|#\d+|#x[0-9a-fA-F]+);)/g, '&amp;')
+  .replace(/"/g, '&quot;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+const decodeForUrlCheck = (value: string): string => value
+  .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  .replace(/&#(\d+);?/g, (_, dec: string) => String.fromCharCode(Number(dec)))
+  .replace(/&colon;/gi, ':')
+  // Browsers ignore whitespace and control characters inside a URL scheme ("java\tscript:")
+  .split('')
+  .filter(char => char.charCodeAt(0) > 32 && char.charCodeAt(0) !== 127)
+  .join('');
+
+const isSafeAttribute = (tag: string, name: string, value: string): boolean => {
+  if (name === 'href') return SAFE_URL.test(decodeForUrlCheck(value));
+  if (name === 'class') return tag === 'code' && SAFE_CLASS.test(value);
+  if (name === 'align') return SAFE_ALIGN.test(value);
+  if (name === 'start') return /^\d+$/.test(value);
+  return true;
+};
+
+const sanitizeAttributes = (tag: string, rawAttributes: string): string => {
+  const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+  const kept: string[] = [];
+  let match: RegExpExecArray | null;
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  while ((match = ATTRIBUTE_PATTERN.exec(rawAttributes)) !== null) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    if (allowed.includes(name) && isSafeAttribute(tag, name, value)) {
+      kept.push(`${name}="${escapeAttribute(value)}"`);
+    }
+  }
+  if (tag === 'a') {
+    kept.push('target="_blank"', 'rel="noopener noreferrer"');
+  }
+  return kept.length > 0 ? ` ${kept.join(' ')}` : '';
+};
+
+export const sanitizeHtml = (html: string): string => {
+  if (!html) return '';
+  let output = '';
+  let lastIndex = 0;
+  let droppingTag: string | null = null;
+  let match: RegExpExecArray | null;
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while ((match = TOKEN_PATTERN.exec(html)) !== null) {
+    if (!droppingTag) {
+      output += html.slice(lastIndex, match.index).replace(/</g, '&lt;');
+    }
+    lastIndex = TOKEN_PATTERN.lastIndex;
+
+    const [token, closing, rawTag, rawAttributes = '', selfClosing] = match;
+    if (token.startsWith('<!--')) continue;
+    const tag = rawTag.toLowerCase();
+
+    if (droppingTag) {
+      if (closing && tag === droppingTag) droppingTag = null;
+      continue;
+    }
+    if (DROP_CONTENT_TAGS.has(tag)) {
+      if (!closing && !selfClosing) droppingTag = tag;
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag)) continue;
+
+    if (closing) {
+      if (!VOID_TAGS.has(tag)) output += `</${tag}>`;
+    } else {
+      output += VOID_TAGS.has(tag) ? `<${tag}>` : `<${tag}${sanitizeAttributes(tag, rawAttributes)}>`;
+    }
+  }
+
+  if (!droppingTag) {
+    output += html.slice(lastIndex).replace(/</g, '&lt;');
+  }
+  return output;
+};
@@ -0,0 +1,52 @@
+// Minimal Server-Sent Events helpers shared by the chat route and the chat UI
+
+const encoder = new TextEncoder();
+
+export const encodeSseEvent = (payload: unknown): Uint8Array => {
+  return encoder.encode(`data: ${JSON.stringify(payload)}\n\n`);
+};
+
+// Yield the `data:` payload of every event in an SSE byte stream.
+// Comment lines (e.g. OpenRouter's ": OPENROUTER PROCESSING" keep-alives) are skipped.
+export async function* readSseData(source: AsyncIterable<Uint8Array | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseEvent = (rawEvent: string): string => {
+    return rawEvent
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+  };
+
+  for await (const chunk of source) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    buffer = buffer.replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const data = parseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (data) yield data;
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  const trailing = parseEvent(buffer.trim());
+  if (trailing) yield trailing;
+}
+
+// Browsers do not reliably expose ReadableStream as an async iterable yet
+export async function* iterateReadableStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      if (value) yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
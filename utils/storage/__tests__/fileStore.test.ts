@@ -0,0 +1,53 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StoredConversation } from '@/types/storage';
+import { FileConversationStore } from '@/utils/storage/fileStore';
+
+const ID = '11111111-1111-4111-8111-111111111111';
+
+const conversation = (...contents: string[]): StoredConversation => ({
+  conversationId: ID,
+  messages: contents.map((content, index) => ({ role: index % 2 === 0 ? 'user' : 'assistant', content })),
+  owner: 'owner-a',
+  updatedAt: new Date().toISOString()
+});
+
+describe('FileConversationStore.delete', () => {
+  let dir: string;
+  let store: FileConversationStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-store-'));
+    store = new FileConversationStore(dir);
+    await store.save(conversation('Where are bike lanes planned?'));
+    await store.save(conversation('Where are bike lanes planned?', 'Downtown, next spring.'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('removes the snapshot and the log', async () => {
+    await store.delete(ID);
+    expect(await fs.readdir(dir)).toEqual([]);
+    expect(await store.load(ID)).toBeNull();
+  });
+
+  it('stays deleted when it stops after removing only one file', async () => {
+    const unlink = fs.unlink;
+    vi.spyOn(fs, 'unlink').mockImplementation(async file => {
+      if (String(file).endsWith('.jsonl')) throw new Error('crashed');
+      return unlink(file);
+    });
+    await expect(store.delete(ID)).rejects.toThrow('crashed');
+    vi.restoreAllMocks();
+
+    expect(await store.load(ID)).toBeNull();
+    // Saving the id again starts a new conversation after the tombstone
+    await store.save(conversation('Rain barrels'));
+    expect((await store.load(ID))?.messages.map(m => m.content)).toEqual(['Rain barrels']);
+  });
+});
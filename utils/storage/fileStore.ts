@@ -0,0 +1,362 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ChatThreadSettings, ConversationSummary, ConversationTitle, Message } from '@/types/chat';
+import { ConversationStore, StoredConversation } from '@/types/storage';
+import { ConversationTree, MessageNode, SerializedConversationTree } from '@/utils/conversationTree';
+import { assertConversationId } from '@/utils/conversationId';
+
+// Each conversation is a snapshot, `<id>.json`, plus an append-only event log, `<id>.jsonl`, of the
+// changes made since. A save appends only what changed; once the log holds COMPACT_EVERY events it is
+// folded into a new snapshot. Snapshots are written to a temp file and renamed into place, and every
+// operation on a conversation waits for the previous one, so neither a crash nor two turns at once
+// can leave half a file behind. Deleting first logs a tombstone, so a crash partway through cannot
+// bring back an older version.
+
+// Log events folded into the snapshot at once
+const COMPACT_EVERY = Number(process.env.CHAT_STORE_COMPACT_EVERY || 50);
+
+interface EventBase {
+  // Increases by one per event; the snapshot records the last one it includes
+  seq: number;
+  // The record's updatedAt when the event was written
+  at: string;
+}
+
+// Every change sets state rather than adjusting it, so applying one twice changes nothing
+type ConversationChange =
+  // A message node added or changed (new children, another active child)
+  | { type: 'node'; node: MessageNode }
+  // Nodes trimmed from the tree
+  | { type: 'drop'; ids: string[] }
+  | { type: 'roots'; rootIds: string[]; activeRootId?: string }
+  // A flat list for records without a tree; replaces any tree
+  | { type: 'messages'; messages: Message[] }
+  | { type: 'summary'; summary: ConversationSummary | null }
+  | { type: 'settings'; settings: ChatThreadSettings | null }
+  | { type: 'title'; title: ConversationTitle | null }
+  | { type: 'owner'; owner: string }
+  // The conversation was deleted; everything before this is gone
+  | { type: 'deleted' };
+
+type ConversationEvent = EventBase & ConversationChange;
+
+type StoredSnapshot = StoredConversation & { seq?: number };
+
+// A conversation being rebuilt from its snapshot and log
+interface ReplayState {
+  exists: boolean;
+  seq: number;
+  tree?: { nodes: Map<string, MessageNode>; rootIds: string[]; activeRootId?: string };
+  messages: Message[];
+  summary?: ConversationSummary;
+  settings?: ChatThreadSettings;
+  title?: ConversationTitle;
+  owner?: string;
+  updatedAt: string;
+}
+
+interface FileState {
+  state: ReplayState;
+  // Events in the log, and how many of its bytes are whole, readable lines
+  events: number;
+  validBytes: number;
+  logBytes: number;
+}
+
+const isErrnoException = (error: unknown): error is NodeJS.ErrnoException => {
+  return typeof error === 'object' && error !== null && 'code' in error;
+};
+
+const isMissing = (error: unknown): boolean => isErrnoException(error) && error.code === 'ENOENT';
+
+const readOptional = async (file: string): Promise<Buffer | null> => {
+  try {
+    return await fs.readFile(file);
+  } catch (error: unknown) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+};
+
+const removeOptional = async (file: string): Promise<void> => {
+  try {
+    await fs.unlink(file);
+  } catch (error: unknown) {
+    if (!isMissing(error)) throw error;
+  }
+};
+
+// Write to a temp file, flush it and rename it over the target, so readers see the old file or the new one
+const writeFileAtomic = async (file: string, data: string): Promise<void> => {
+  const tempFile = `${file}.${process.pid}.tmp`;
+  const handle = await fs.open(tempFile, 'w');
+  try {
+    await handle.writeFile(data, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.rename(tempFile, file);
+};
+
+const appendDurably = async (file: string, data: string): Promise<void> => {
+  const handle = await fs.open(file, 'a');
+  try {
+    await handle.writeFile(data, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+};
+
+// Make renames and removals in a directory survive a crash. Some platforms cannot open a directory; they go without.
+const syncDirectory = async (dir: string): Promise<void> => {
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(dir, 'r');
+  } catch (error: unknown) {
+    if (isErrnoException(error) && (error.code === 'EISDIR' || error.code === 'EPERM')) return;
+    throw error;
+  }
+  try {
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+};
+
+const sameJson = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const fromSnapshot = (snapshot: StoredSnapshot | null): ReplayState => ({
+  exists: snapshot !== null,
+  seq: snapshot?.seq ?? 0,
+  tree: snapshot?.tree
+    ? {
+      nodes: new Map(snapshot.tree.nodes.map(node => [node.id, node])),
+      rootIds: snapshot.tree.rootIds,
+      activeRootId: snapshot.tree.activeRootId
+    }
+    : undefined,
+  messages: snapshot?.messages ?? [],
+  summary: snapshot?.summary,
+  settings: snapshot?.settings,
+  title: snapshot?.title,
+  owner: snapshot?.owner,
+  updatedAt: snapshot?.updatedAt ?? new Date(0).toISOString()
+});
+
+const applyEvent = (state: ReplayState, event: ConversationEvent): void => {
+  if (event.type === 'deleted') {
+    Object.assign(state, fromSnapshot(null), { seq: event.seq, updatedAt: event.at });
+    return;
+  }
+  state.exists = true;
+  state.seq = event.seq;
+  state.updatedAt = event.at;
+  switch (event.type) {
+    case 'node':
+      state.tree ??= { nodes: new Map(), rootIds: [] };
+      state.tree.nodes.set(event.node.id, event.node);
+      break;
+    case 'drop':
+      event.ids.forEach(id => state.tree?.nodes.delete(id));
+      break;
+    case 'roots':
+      state.tree ??= { nodes: new Map(), rootIds: [] };
+      state.tree.rootIds = event.rootIds;
+      state.tree.activeRootId = event.activeRootId;
+      break;
+    case 'messages':
+      state.tree = undefined;
+      state.messages = event.messages;
+      break;
+    case 'summary':
+      state.summary = event.summary ?? undefined;
+      break;
+    case 'settings':
+      state.settings = event.settings ?? undefined;
+      break;
+    case 'title':
+      state.title = event.title ?? undefined;
+      break;
+    case 'owner':
+      state.owner = event.owner;
+      break;
+  }
+};
+
+const serializeTree = (tree: NonNullable<ReplayState['tree']>): SerializedConversationTree => ({
+  nodes: [...tree.nodes.values()],
+  rootIds: tree.rootIds,
+  ...(tree.activeRootId ? { activeRootId: tree.activeRootId } : {})
+});
+
+const toStored = (conversationId: string, state: ReplayState): StoredConversation => {
+  const tree = state.tree ? serializeTree(state.tree) : undefined;
+  return {
+    conversationId,
+    messages: tree ? ConversationTree.fromJSON(tree).messages() : state.messages,
+    ...(tree ? { tree } : {}),
+    ...(state.summary ? { summary: state.summary } : {}),
+    ...(state.settings ? { settings: state.settings } : {}),
+    ...(state.title ? { title: state.title } : {}),
+    ...(state.owner ? { owner: state.owner } : {}),
+    updatedAt: state.updatedAt
+  };
+};
+
+// The changes that turn `state` into `conversation`; none when nothing changed
+const diffChanges = (state: ReplayState, conversation: StoredConversation): ConversationChange[] => {
+  const changes: ConversationChange[] = [];
+  if (conversation.tree) {
+    const previous = state.tree?.nodes ?? new Map<string, MessageNode>();
+    const current = new Set<string>();
+    conversation.tree.nodes.forEach(node => {
+      current.add(node.id);
+      if (!sameJson(previous.get(node.id), node)) changes.push({ type: 'node', node });
+    });
+    const dropped = [...previous.keys()].filter(id => !current.has(id));
+    if (dropped.length > 0) changes.push({ type: 'drop', ids: dropped });
+    const { rootIds, activeRootId } = conversation.tree;
+    if (!state.tree || !sameJson(state.tree.rootIds, rootIds) || state.tree.activeRootId !== activeRootId) {
+      changes.push({ type: 'roots', rootIds, ...(activeRootId ? { activeRootId } : {}) });
+    }
+  } else if (state.tree || !sameJson(state.messages, conversation.messages)) {
+    changes.push({ type: 'messages', messages: conversation.messages });
+  }
+  if (!sameJson(state.summary, conversation.summary)) changes.push({ type: 'summary', summary: conversation.summary ?? null });
+  if (!sameJson(state.settings, conversation.settings)) changes.push({ type: 'settings', settings: conversation.settings ?? null });
+  if (!sameJson(state.title, conversation.title)) changes.push({ type: 'title', title: conversation.title ?? null });
+  // Owners are only ever set, never changed or removed
+  if (conversation.owner && conversation.owner !== state.owner) changes.push({ type: 'owner', owner: conversation.owner });
+  // A conversation saved for the first time with nothing in it still has to exist afterwards
+  if (changes.length === 0 && !state.exists) changes.push({ type: 'messages', messages: conversation.messages });
+  return changes;
+};
+
+export class FileConversationStore implements ConversationStore {
+  readonly name = 'filesystem';
+  private dir: string;
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private filesFor(conversationId: string): { snapshot: string; log: string } {
+    const id = assertConversationId(conversationId);
+    return { snapshot: path.join(this.dir, `${id}.json`), log: path.join(this.dir, `${id}.jsonl`) };
+  }
+
+  // Operations on the same conversation run one after another
+  private withLock<T>(conversationId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(conversationId) ?? Promise.resolve();
+    const run = previous.then(task);
+    const settled = run.catch(() => {});
+    this.locks.set(conversationId, settled);
+    settled.then(() => {
+      if (this.locks.get(conversationId) === settled) this.locks.delete(conversationId);
+    });
+    return run;
+  }
+
+  // The snapshot with the log replayed over it. Replay stops at the first line that does not parse:
+  // the log is only ever appended to, so that is a write cut short and everything before it is intact.
+  private async readState(conversationId: string): Promise<FileState> {
+    const files = this.filesFor(conversationId);
+    const [rawSnapshot, log] = await Promise.all([readOptional(files.snapshot), readOptional(files.log)]);
+
+    let snapshot: StoredSnapshot | null = null;
+    if (rawSnapshot) {
+      try {
+        const parsed: StoredSnapshot = JSON.parse(rawSnapshot.toString('utf-8'));
+        if (parsed && Array.isArray(parsed.messages)) snapshot = parsed;
+      } catch {
+        // Only a file damaged outside this store gets here; what the log holds is still recovered
+        console.warn(`Conversation store: ignoring the unreadable snapshot ${conversationId}.json`);
+      }
+    }
+    const state = fromSnapshot(snapshot);
+
+    let events = 0;
+    let validBytes = 0;
+    if (log) {
+      let lineStart = 0;
+      for (let newline = log.indexOf(0x0a); newline >= 0; newline = log.indexOf(0x0a, lineStart)) {
+        let event: ConversationEvent;
+        try {
+          event = JSON.parse(log.subarray(lineStart, newline).toString('utf-8'));
+        } catch {
+          break;
+        }
+        // Events already in the snapshot are left over from a compaction that did not get to remove the log
+        if (event.seq > state.seq) applyEvent(state, event);
+        events += 1;
+        lineStart = newline + 1;
+        validBytes = lineStart;
+      }
+      if (validBytes < log.length) {
+        console.warn(`Conversation store: ignoring ${log.length - validBytes} unreadable bytes at the end of ${conversationId}.jsonl`);
+      }
+    }
+    return { state, events, validBytes, logBytes: log?.length ?? 0 };
+  }
+
+  // Missing and unreadable conversations both count as no conversation
+  async load(conversationId: string): Promise<StoredConversation | null> {
+    assertConversationId(conversationId);
+    return this.withLock(conversationId, async () => {
+      try {
+        const { state } = await this.readState(conversationId);
+        return state.exists ? toStored(conversationId, state) : null;
+      } catch (error: unknown) {
+        console.warn(`Conversation store: could not read ${conversationId}`, error);
+        return null;
+      }
+    });
+  }
+
+  async save(conversation: StoredConversation): Promise<void> {
+    const { conversationId } = conversation;
+    const files = this.filesFor(conversationId);
+    await this.withLock(conversationId, async () => {
+      await fs.mkdir(this.dir, { recursive: true });
+      const { state, events, validBytes, logBytes } = await this.readState(conversationId);
+      const changes = diffChanges(state, conversation);
+      if (changes.length === 0) return;
+      const pending: ConversationEvent[] = changes.map((change, index) => ({ ...change, seq: state.seq + index + 1, at: conversation.updatedAt }));
+
+      if (events + pending.length >= COMPACT_EVERY) {
+        pending.forEach(event => applyEvent(state, event));
+        const snapshot: StoredSnapshot = { ...toStored(conversationId, state), seq: state.seq };
+        // The new snapshot's rename must be on disk before the log it replaces goes
+        await writeFileAtomic(files.snapshot, JSON.stringify(snapshot, null, 2));
+        await syncDirectory(this.dir);
+        await removeOptional(files.log);
+        await syncDirectory(this.dir);
+        return;
+      }
+
+      // Cut off a line left unfinished by a crash, so the new events do not end up after it
+      if (validBytes < logBytes) await fs.truncate(files.log, validBytes);
+      await appendDurably(files.log, pending.map(event => JSON.stringify(event)).join('\n') + '\n');
+    });
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    const files = this.filesFor(conversationId);
+    // The tombstone makes whatever a crash leaves of the two files load as deleted
+    await this.withLock(conversationId, async () => {
+      const { state, validBytes, logBytes } = await this.readState(conversationId);
+      if (!state.exists && logBytes === 0) return;
+      if (state.exists) {
+        const tombstone: ConversationEvent = { type: 'deleted', seq: state.seq + 1, at: new Date().toISOString() };
+        if (validBytes < logBytes) await fs.truncate(files.log, validBytes);
+        await appendDurably(files.log, `${JSON.stringify(tombstone)}\n`);
+      }
+      await removeOptional(files.snapshot);
+      await removeOptional(files.log);
+      await syncDirectory(this.dir);
+    });
+  }
+}
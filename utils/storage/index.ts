@@ -0,0 +1,32 @@
+import path from 'path';
+import { ConversationStore } from '@/types/storage';
+import { MemoryConversationStore } from '@/utils/storage/memoryStore';
+import { FileConversationStore } from '@/utils/storage/fileStore';
+import { SqliteConversationStore } from '@/utils/storage/sqliteStore';
+
+export type ConversationStoreName = 'memory' | 'filesystem' | 'sqlite';
+
+const dataDir = path.join(process.cwd(), 'data');
+
+const storeFactories: Record<ConversationStoreName, () => ConversationStore> = {
+  'memory': () => new MemoryConversationStore({
+    maxEntries: Number(process.env.CHAT_STORE_MAX_CONVERSATIONS || 1_000),
+    idleTtlMs: Number(process.env.CHAT_STORE_IDLE_TTL_MS || 24 * 60 * 60_000),
+  }),
+  'filesystem': () => new FileConversationStore(process.env.CHAT_STORE_DIR || path.join(dataDir, 'conversations')),
+  'sqlite': () => new SqliteConversationStore(process.env.CHAT_STORE_SQLITE_FILE || path.join(dataDir, 'conversations.sqlite')),
+};
+
+let cachedStore: ConversationStore | undefined;
+
+// Resolve the store named by CHAT_STORE (defaults to the filesystem) once per server process
+export const getConversationStore = (): ConversationStore => {
+  if (cachedStore) return cachedStore;
+  const name = (process.env.CHAT_STORE || 'filesystem').toLowerCase() as ConversationStoreName;
+  const factory = storeFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown CHAT_STORE "${name}". Expected one of: ${Object.keys(storeFactories).join(', ')}`);
+  }
+  cachedStore = factory();
+  return cachedStore;
+};
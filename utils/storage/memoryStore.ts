@@ -0,0 +1,27 @@
+import { ConversationStore, StoredConversation } from '@/types/storage';
+import { LruCache, LruCacheOptions } from '@/utils/lruCache';
+
+// Keeps conversations in this process only: nothing survives a restart, and the least recently used
+// ones are dropped once the store is full or after sitting idle. Meant for development and tests.
+export class MemoryConversationStore implements ConversationStore {
+  readonly name = 'memory';
+  private records: LruCache<StoredConversation>;
+
+  constructor(options: Omit<LruCacheOptions<StoredConversation>, 'canEvict'>) {
+    this.records = new LruCache(options);
+  }
+
+  // Copies in and out, so callers cannot change a stored record by holding on to it
+  async load(conversationId: string): Promise<StoredConversation | null> {
+    const record = this.records.get(conversationId);
+    return record ? structuredClone(record) : null;
+  }
+
+  async save(conversation: StoredConversation): Promise<void> {
+    this.records.set(conversation.conversationId, structuredClone(conversation));
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    this.records.delete(conversationId);
+  }
+}
@@ -0,0 +1,68 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import { ConversationStore, StoredConversation } from '@/types/storage';
+
+// One row per conversation in an embedded SQLite database, the record kept as JSON. The driver is an
+// optional dependency loaded on first use, so deployments on the other stores never need the native module.
+export class SqliteConversationStore implements ConversationStore {
+  readonly name = 'sqlite';
+  private file: string;
+  private db: Promise<Database.Database> | null = null;
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  private open(): Promise<Database.Database> {
+    if (!this.db) {
+      this.db = (async () => {
+        const { default: Sqlite } = await import('better-sqlite3').catch((error: unknown) => {
+          throw new Error('CHAT_STORE=sqlite needs the optional better-sqlite3 package, which is not installed', { cause: error });
+        });
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        const db = new Sqlite(this.file);
+        // Readers do not wait for a turn being written
+        db.pragma('journal_mode = WAL');
+        db.exec(`CREATE TABLE IF NOT EXISTS conversations (
+          id TEXT PRIMARY KEY,
+          data TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )`);
+        return db;
+      })().catch((error: unknown) => {
+        // Try again on the next call instead of failing every call after one bad start
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  // Rows that do not parse count as no conversation
+  async load(conversationId: string): Promise<StoredConversation | null> {
+    const db = await this.open();
+    const row = db.prepare('SELECT data FROM conversations WHERE id = ?').get(conversationId) as { data: string } | undefined;
+    if (!row) return null;
+    try {
+      const parsed: StoredConversation = JSON.parse(row.data);
+      return parsed && Array.isArray(parsed.messages) ? parsed : null;
+    } catch (error: unknown) {
+      console.warn(`Conversation store: could not read ${conversationId}`, error);
+      return null;
+    }
+  }
+
+  async save(conversation: StoredConversation): Promise<void> {
+    const db = await this.open();
+    db.prepare(
+      `INSERT INTO conversations (id, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    ).run(conversation.conversationId, JSON.stringify(conversation), conversation.updatedAt);
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    const db = await this.open();
+    db.prepare('DELETE FROM conversations WHERE id = ?').run(conversationId);
+  }
+}
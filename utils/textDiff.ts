@@ -0,0 +1,66 @@
+import { DiffLine } from '@/types/chat';
+
+// Line-by-line diff for showing what an edit changes in a post body
+
+// Above this many line pairs the middle section is shown as a plain replace instead of an LCS diff
+const MAX_DIFF_CELLS = 250_000;
+
+const splitLines = (text: string): string[] => (text ? text.replace(/\r\n?/g, '\n').split('\n') : []);
+
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const left = splitLines(before);
+  const right = splitLines(after);
+
+  // Shared leading and trailing lines need no table
+  let prefix = 0;
+  while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < left.length - prefix
+    && suffix < right.length - prefix
+    && left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+  ) suffix++;
+
+  const head: DiffLine[] = left.slice(0, prefix).map(text => ({ type: 'same', text }));
+  const tail: DiffLine[] = left.slice(left.length - suffix).map(text => ({ type: 'same', text }));
+  const oldMiddle = left.slice(prefix, left.length - suffix);
+  const newMiddle = right.slice(prefix, right.length - suffix);
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...oldMiddle.map((text): DiffLine => ({ type: 'removed', text })),
+      ...newMiddle.map((text): DiffLine => ({ type: 'added', text })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i][j]: longest common subsequence of oldMiddle[i..] and newMiddle[j..]
+  const lengths: number[][] = Array.from({ length: oldMiddle.length + 1 }, () => new Array(newMiddle.length + 1).fill(0));
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldMiddle[i] === newMiddle[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      middle.push({ type: 'same', text: oldMiddle[i] });
+      i++;
+      j++;
+    } else if (j >= newMiddle.length || (i < oldMiddle.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      middle.push({ type: 'removed', text: oldMiddle[i] });
+      i++;
+    } else {
+      middle.push({ type: 'added', text: newMiddle[j] });
+      j++;
+    }
+  }
+
+  return [...head, ...middle, ...tail];
+};
@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import { TokenBalance } from '@/types/chat';
+import { UsageMetrics } from '@/types/llm';
+import { isRecord } from '@/utils/tools/needpedia';
+import { enqueueTokenDecrement } from '@/utils/outbox';
+
+// Per-user token quota kept by the Needpedia Rails API.
+// Balances are cached briefly so a turn does not wait on the backend; usage is deducted locally right away
+// and charged to the backend through the outbox.
+
+const BALANCE_TTL_MS = Number(process.env.TOKEN_BALANCE_TTL_MS || 60_000);
+// A slow backend must not hold up the turn; it goes on with the cached balance, or none
+const BALANCE_TIMEOUT_MS = Number(process.env.TOKEN_BALANCE_TIMEOUT_MS || 5_000);
+
+const balanceCache: Map<string, { balance: TokenBalance; fetchedAt: number }> = new Map();
+
+export class QuotaExceededError extends Error {
+  readonly status = 402;
+  readonly code = 'quota_exceeded';
+  readonly balance: TokenBalance;
+
+  constructor(balance: TokenBalance) {
+    super('You have used all of your tokens. Top up your Needpedia token balance to keep chatting.');
+    this.name = 'QuotaExceededError';
+    this.balance = balance;
+  }
+}
+
+const cacheKey = (userToken: string): string => createHash('sha256').update(userToken).digest('hex');
+
+const getTokensUrl = (action: string): string => {
+  return `${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000'}/api/v1/tokens/${action}`;
+};
+
+const readNumber = (payload: Record<string, unknown>, keys: string[]): number | undefined => {
+  for (const key of keys) {
+    const value = Number(payload[key]);
+    if (payload[key] !== undefined && payload[key] !== null && Number.isFinite(value)) return value;
+  }
+  return undefined;
+};
+
+// The balance endpoint has answered with a bare object and with one nested under `tokens`
+const parseBalance = (payload: unknown): TokenBalance | undefined => {
+  if (!isRecord(payload)) return undefined;
+  const source = isRecord(payload.tokens) ? payload.tokens : payload;
+  const remaining = readNumber(source, ['remaining', 'remaining_tokens', 'balance', 'tokens']);
+  if (remaining === undefined) return undefined;
+  const total = readNumber(source, ['total', 'total_tokens', 'limit', 'allowance']);
+  return { remaining: Math.max(0, remaining), ...(total !== undefined ? { total } : {}) };
+};
+
+// Current balance, or undefined when the backend cannot tell; unknown balances do not block chatting.
+// Like the other per-user calls, the user is identified by the `token` header, never by the URL, which
+// ends up in access and proxy logs.
+export const getTokenBalance = async (userToken: string, options: { fresh?: boolean } = {}): Promise<TokenBalance | undefined> => {
+  const key = cacheKey(userToken);
+  const cached = balanceCache.get(key);
+  if (cached && !options.fresh && Date.now() - cached.fetchedAt < BALANCE_TTL_MS) {
+    return cached.balance;
+  }
+
+  try {
+    const response = await fetch(getTokensUrl('balance'), {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${process.env.POST_TOKEN || ''}`,
+        'token': userToken
+      },
+      signal: AbortSignal.timeout(BALANCE_TIMEOUT_MS)
+    });
+    if (!response.ok) return cached?.balance;
+    const balance = parseBalance(await response.json().catch(() => undefined));
+    if (!balance) return cached?.balance;
+    balanceCache.set(key, { balance, fetchedAt: Date.now() });
+    return balance;
+  } catch {
+    return cached?.balance;
+  }
+};
+
+// Tokens a model call reports using
+export const extractTokenCount = (usage?: UsageMetrics): number => {
+  if (!usage) return 0;
+  const total = usage.total_tokens ?? usage.total ?? usage.completion_tokens ?? 0;
+  return Number.isFinite(total) ? Number(total) : 0;
+};
+
+// Throws QuotaExceededError when the user has no tokens left
+export const assertTokensAvailable = async (userToken: string): Promise<TokenBalance | undefined> => {
+  let balance = await getTokenBalance(userToken);
+  // A cached zero may be stale after a top-up
+  if (balance && balance.remaining <= 0) {
+    balance = await getTokenBalance(userToken, { fresh: true });
+  }
+  if (balance && balance.remaining <= 0) {
+    throw new QuotaExceededError(balance);
+  }
+  return balance;
+};
+
+// Deduct usage from the cached balance and queue the charge for the backend.
+// `turnId` is the idempotency key, so a retried charge is never applied twice.
+export const recordTokenUsage = (userToken: string, used: number, turnId: string): TokenBalance | undefined => {
+  const decrement = Math.max(1, Math.ceil(used || 0));
+  const key = cacheKey(userToken);
+  const cached = balanceCache.get(key);
+  if (cached) {
+    cached.balance = { ...cached.balance, remaining: Math.max(0, cached.balance.remaining - decrement) };
+  }
+
+  enqueueTokenDecrement(userToken, decrement, turnId).catch((error: unknown) => {
+    console.warn('Token usage could not be queued', error);
+  });
+
+  return cached?.balance;
+};
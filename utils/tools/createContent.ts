@@ -0,0 +1,149 @@
+import { DuplicateCandidate } from '@/types/chat';
+import { ToolSpec } from '@/types/tools';
+import { htmlToPlainText, toRichHtml } from '@/utils/richText';
+import { PublishedPost, buildApiHeaders, fetchApi, getApiBaseUrl, readApiResponse } from '@/utils/tools/needpedia';
+import { DuplicateContentError, findDuplicateCandidates } from '@/utils/tools/duplicates';
+
+export interface CreateContentArgs {
+  title: string;
+  description: string;
+  content_type: 'subject' | 'problem' | 'idea';
+  parent_id?: string;
+  confirm?: boolean;
+  confirmation_ticket?: string;
+}
+
+export interface CreateContentResult {
+  requires_confirmation?: boolean;
+  preview?: {
+    title: string;
+    content_type: string;
+    description: string;
+    html: string;
+    plain_text: string;
+    parent_id?: string;
+    duplicates?: DuplicateCandidate[];
+    allow_duplicate?: boolean;
+  };
+  instructions?: string;
+  // Set when the preview found similar posts and the user has not overridden it
+  duplicate_warning?: string;
+  post?: PublishedPost;
+}
+
+interface CreatePostPayload {
+  post: {
+    title: string;
+    post_type: string;
+    content: {
+      body: string;
+    };
+    subject_id?: string;
+    problem_id?: string;
+  };
+}
+
+export const createContentTool: ToolSpec<CreateContentArgs, CreateContentResult> = {
+  name: 'create_content',
+  description: 'Create new content (subject, problem, or idea)',
+  sideEffect: 'write',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: {
+        type: 'string',
+        description: 'The title of the content',
+        minLength: 1,
+      },
+      description: {
+        type: 'string',
+        description: 'The description/body of the content',
+        minLength: 1,
+      },
+      content_type: {
+        type: 'string',
+        enum: ['subject', 'problem', 'idea'],
+        description: 'The type of content: subject, problem, or idea',
+      },
+      parent_id: {
+        type: 'string',
+        description: 'The parent ID (subject_id for problems, problem_id for ideas)',
+      },
+      confirm: {
+        type: 'boolean',
+        description: 'Set to true only after the user reviews the preview and approves creation.'
+      },
+      confirmation_ticket: {
+        type: 'string',
+        description: 'The confirmation_ticket returned with the preview. Required together with "confirm": true.'
+      }
+    },
+    required: ['title', 'description', 'content_type'],
+  },
+  handler: async (args, context) => {
+    const htmlBody = toRichHtml(args.description || '');
+    const plainText = htmlToPlainText(htmlBody);
+    const previewPayload = {
+      title: args.title,
+      content_type: args.content_type,
+      description: args.description,
+      html: htmlBody,
+      plain_text: plainText,
+      parent_id: args.parent_id
+    };
+
+    // The override is the user's alone: it comes from the preview card, never from the model's arguments
+    if (!args.confirm) {
+      const duplicates = await findDuplicateCandidates(args, context);
+      const allowDuplicate = context.allowDuplicate === true;
+      return {
+        requires_confirmation: true,
+        preview: {
+          ...previewPayload,
+          ...(duplicates.length > 0 ? { duplicates } : {}),
+          ...(allowDuplicate ? { allow_duplicate: true } : {})
+        },
+        instructions: 'Please confirm this post before creation by calling create_content again with "confirm": true.',
+        ...(duplicates.length > 0 && !allowDuplicate ? {
+          duplicate_warning: 'Similar posts already exist (see preview.duplicates). Show them to the user with their links. This preview cannot be confirmed; if the user wants a new post anyway, they can choose "Create anyway" on the preview card.'
+        } : {})
+      };
+    }
+
+    // Checked again at creation unless the approved preview carried the user's override: the preview may be old
+    if (context.ticket?.preview?.allow_duplicate !== true) {
+      const duplicates = await findDuplicateCandidates(args, context);
+      if (duplicates.length > 0) {
+        throw new DuplicateContentError(duplicates);
+      }
+    }
+
+    const postData: CreatePostPayload = {
+      post: {
+        title: args.title || '',
+        post_type: args.content_type || '',
+        content: {
+          body: htmlBody
+        }
+      }
+    };
+
+    if (args.content_type === 'problem' && args.parent_id) {
+      postData.post.subject_id = args.parent_id;
+    } else if (args.content_type === 'idea' && args.parent_id) {
+      postData.post.problem_id = args.parent_id;
+    }
+
+    const response = await fetchApi(`${getApiBaseUrl()}/api/v1/posts`, {
+      method: 'POST',
+      headers: buildApiHeaders(context),
+      body: JSON.stringify(postData),
+      signal: context.signal
+    });
+    const payload = await readApiResponse<{ content?: { post?: PublishedPost } }>(response);
+
+    return {
+      post: payload.content?.post
+    };
+  }
+};
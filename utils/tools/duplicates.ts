@@ -0,0 +1,116 @@
+import { DuplicateCandidate } from '@/types/chat';
+import { ToolContext } from '@/types/tools';
+import { isAbortError } from '@/utils/abort';
+import { ToolPreconditionError, buildApiHeaders, extractPosts, fetchApi, getApiBaseUrl, readApiResponse, summarizePost } from '@/utils/tools/needpedia';
+
+// Server-side duplicate check for create_content: the model is told to search first, but weaker
+// models skip it, so every create preview runs its own fuzzy search over the same type and parent.
+
+// Titles at least this similar are reported as likely duplicates
+const DUPLICATE_THRESHOLD = 0.6;
+const MAX_CANDIDATES = 5;
+const SEARCH_PAGE_SIZE = 25;
+
+const STOPWORDS = new Set(['a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// Lowercase, strip accents and punctuation, collapse whitespace
+export const normalizeTitle = (title: string): string => (title || '')
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/&/g, ' and ')
+  .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  .trim();
+
+// Significant words, with a naive plural strip so "Bike lanes" matches "bike lane"
+const titleTokens = (title: string): string[] => normalizeTitle(title)
+  .split(' ')
+  .filter(token => token && !STOPWORDS.has(token))
+  .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+
+// 1 for identical normalized titles, otherwise the Dice coefficient of their word sets
+export const titleSimilarity = (a: string, b: string): number => {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  const leftTokens = new Set(titleTokens(a));
+  const rightTokens = new Set(titleTokens(b));
+  if (leftTokens.size === 0 || rightTokens.size === 0) return 0;
+  let shared = 0;
+  leftTokens.forEach(token => {
+    if (rightTokens.has(token)) shared++;
+  });
+  return (2 * shared) / (leftTokens.size + rightTokens.size);
+};
+
+// The whole title plus its two longest words, since `title_cont` only matches exact substrings
+const searchQueries = (title: string): string[] => {
+  const longest = [...new Set(titleTokens(title))]
+    .filter(token => token.length >= 4)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, 2);
+  return [...new Set([normalizeTitle(title), ...longest])].filter(Boolean);
+};
+
+// Posts of the same type (and parent, when given) whose titles look like `title`, most similar first.
+// Search failures return no candidates: the check must not make creating content impossible.
+export const findDuplicateCandidates = async (
+  input: { title: string; content_type: string; parent_id?: string },
+  context: ToolContext
+): Promise<DuplicateCandidate[]> => {
+  // Problems are filed under a subject, ideas under a problem
+  const parentFilter = input.parent_id && input.content_type !== 'subject'
+    ? `q[${input.content_type === 'idea' ? 'problem' : 'subject'}_id_eq]`
+    : undefined;
+
+  const seen: Map<string, DuplicateCandidate> = new Map();
+  for (const query of searchQueries(input.title)) {
+    const url = new URL(`${getApiBaseUrl()}/api/v1/posts`);
+    url.searchParams.append('type', input.content_type);
+    url.searchParams.append('q[title_cont]', query);
+    if (parentFilter && input.parent_id) url.searchParams.append(parentFilter, input.parent_id);
+    url.searchParams.append('per_page', String(SEARCH_PAGE_SIZE));
+
+    try {
+      const response = await fetchApi(url.toString(), {
+        method: 'GET',
+        headers: buildApiHeaders(context),
+        signal: context.signal
+      });
+      const payload = await readApiResponse<{ content?: unknown }>(response);
+      extractPosts(payload?.content, input.content_type).forEach(post => {
+        const summary = summarizePost(post, input.content_type);
+        if (summary.type !== input.content_type) return;
+        const similarity = titleSimilarity(input.title, summary.title);
+        const key = summary.id ?? normalizeTitle(summary.title);
+        if (similarity < DUPLICATE_THRESHOLD || seen.has(key)) return;
+        seen.set(key, {
+          title: summary.title,
+          similarity: Math.round(similarity * 100) / 100,
+          ...(summary.id ? { id: summary.id } : {}),
+          ...(summary.link ? { link: summary.link } : {})
+        });
+      });
+    } catch (error: unknown) {
+      if (isAbortError(error, context.signal)) throw error;
+      console.warn('Duplicate check: search failed', error);
+    }
+  }
+
+  return [...seen.values()]
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, MAX_CANDIDATES);
+};
+
+// Thrown when creating content that looks like an existing post without the user's override
+export class DuplicateContentError extends ToolPreconditionError {
+  readonly duplicates: DuplicateCandidate[];
+
+  constructor(duplicates: DuplicateCandidate[]) {
+    const list = duplicates.map(d => `"${d.title}"${d.link ? ` (${d.link})` : d.id ? ` (#${d.id})` : ''}`).join(', ');
+    super(`Similar posts already exist: ${list}. Share them with the user; they can still create a new post with "Create anyway" on the preview card.`);
+    this.name = 'DuplicateContentError';
+    this.duplicates = duplicates;
+  }
+}
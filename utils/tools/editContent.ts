@@ -0,0 +1,130 @@
+import { DiffLine } from '@/types/chat';
+import { ToolSpec } from '@/types/tools';
+import { htmlToMarkdown, htmlToPlainText, toRichHtml } from '@/utils/richText';
+import { diffLines } from '@/utils/textDiff';
+import { PublishedPost, buildApiHeaders, fetchApi, getApiBaseUrl, readApiResponse } from '@/utils/tools/needpedia';
+import { fetchContent } from '@/utils/tools/getContent';
+
+export interface EditContentArgs {
+  content_id: string;
+  changes: {
+    title?: string;
+    description?: string;
+  };
+  confirm?: boolean;
+  confirmation_ticket?: string;
+}
+
+export interface EditContentResult {
+  requires_confirmation?: boolean;
+  preview?: {
+    content_id: string;
+    title?: string;
+    description?: string;
+    html?: string;
+    plain_text?: string;
+    // The post as stored now, when it could be read
+    current_title?: string;
+    current_description?: string;
+    description_diff?: DiffLine[];
+  };
+  instructions?: string;
+  post?: PublishedPost;
+}
+
+interface UpdatePostPayload {
+  post: Record<string, unknown>;
+}
+
+export const editContentTool: ToolSpec<EditContentArgs, EditContentResult> = {
+  name: 'edit_content',
+  description: 'Edit existing content',
+  sideEffect: 'write',
+  parameters: {
+    type: 'object',
+    properties: {
+      content_id: {
+        type: 'string',
+        description: 'The ID of the content to edit',
+        minLength: 1,
+      },
+      changes: {
+        type: 'object',
+        properties: {
+          title: {
+            type: 'string',
+            description: 'New title for the content',
+            minLength: 1,
+          },
+          description: {
+            type: 'string',
+            description: 'New description for the content',
+            minLength: 1,
+          }
+        },
+        minProperties: 1,
+        description: 'The changes to apply to the content',
+      },
+      confirm: {
+        type: 'boolean',
+        description: 'Set to true only after the user reviews the edit preview and approves updating.'
+      },
+      confirmation_ticket: {
+        type: 'string',
+        description: 'The confirmation_ticket returned with the preview. Required together with "confirm": true.'
+      }
+    },
+    required: ['content_id', 'changes'],
+  },
+  handler: async (args, context) => {
+    const { content_id, changes } = args;
+    const { title, description } = changes;
+    const html = description ? toRichHtml(description) : undefined;
+    const plainText = html ? htmlToPlainText(html) : undefined;
+    const previewPayload = {
+      content_id,
+      title,
+      description,
+      html,
+      plain_text: plainText
+    };
+
+    if (!args.confirm) {
+      // Best effort: a preview without the current version is still a valid preview
+      const current = await fetchContent(content_id, context).catch(() => undefined);
+      // Both sides go through the same HTML-to-markdown conversion, so only real changes show up
+      const descriptionDiff = current && html ? diffLines(current.body, htmlToMarkdown(html)) : undefined;
+      return {
+        requires_confirmation: true,
+        preview: {
+          ...previewPayload,
+          ...(current ? { current_title: current.title, current_description: current.body } : {}),
+          ...(descriptionDiff ? { description_diff: descriptionDiff } : {})
+        },
+        instructions: 'Please confirm this edit by calling edit_content again with "confirm": true.'
+      };
+    }
+
+    const postData: UpdatePostPayload = {
+      post: {}
+    };
+
+    if (title) postData.post.title = title;
+    if (description && html) {
+      postData.post.content = { body: html };
+      postData.post.content_attributes = { body: html };
+    }
+
+    const response = await fetchApi(`${getApiBaseUrl()}/posts/${content_id}/api_update`, {
+      method: 'PUT',
+      headers: buildApiHeaders(context, { 'Accept': 'application/json' }),
+      body: JSON.stringify(postData),
+      signal: context.signal
+    });
+    const payload = await readApiResponse<{ content?: { post?: PublishedPost } }>(response);
+
+    return {
+      post: payload.content?.post
+    };
+  }
+};
@@ -0,0 +1,178 @@
+import { ToolSpec } from '@/types/tools';
+import { htmlToPlainText } from '@/utils/richText';
+import {
+  ContentSummary,
+  NeedpediaPost,
+  PageInfo,
+  buildApiHeaders,
+  extractPosts,
+  fetchApi,
+  getApiBaseUrl,
+  isRecord,
+  readApiResponse,
+  readPageInfo,
+  summarizePost
+} from '@/utils/tools/needpedia';
+
+export interface FindContentArgs {
+  query: string;
+  type?: 'all' | 'subject' | 'problem' | 'idea';
+  search_in?: 'title' | 'body' | 'all';
+  parent_id?: string;
+  parent_type?: 'subject' | 'problem';
+  sort?: 'relevance' | 'recent' | 'title';
+  page?: number;
+  per_page?: number;
+}
+
+export interface FoundContent extends ContentSummary {
+  // Start of the body as plain text
+  excerpt?: string;
+  parent_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface FindContentResult extends PageInfo {
+  items: FoundContent[];
+}
+
+// Short-lived cache for tool results to avoid duplicate backend calls
+// Keyed by `${toolName}|${stableArgs}`
+const toolResultCache: Map<string, { expiryMs: number; payload: FindContentResult }> = new Map();
+const TOOL_CACHE_TTL_MS = 5_000; // 5 seconds dedupe window
+
+const DEFAULT_PER_PAGE = 20;
+const EXCERPT_LENGTH = 200;
+
+// Ransack predicates on the posts index
+const SEARCH_PREDICATES: Record<NonNullable<FindContentArgs['search_in']>, string> = {
+  title: 'title_cont',
+  body: 'body_cont',
+  all: 'title_or_body_cont',
+};
+
+const SORTS: Record<Exclude<NonNullable<FindContentArgs['sort']>, 'relevance'>, string> = {
+  recent: 'created_at desc',
+  title: 'title asc',
+};
+
+const readBodyText = (item: NeedpediaPost): string => {
+  const body = isRecord(item.content) ? item.content.body : item.content ?? item.description;
+  return typeof body === 'string' ? htmlToPlainText(body).replace(/\s+/g, ' ').trim() : '';
+};
+
+const toFoundContent = (item: NeedpediaPost, postType: string): FoundContent => {
+  const text = readBodyText(item);
+  const parentId = item.problem_id ?? item.subject_id;
+  return {
+    ...summarizePost(item, postType),
+    ...(text ? { excerpt: text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}...` : text } : {}),
+    ...(parentId !== undefined && parentId !== null ? { parent_id: String(parentId) } : {}),
+    ...(item.created_at ? { created_at: item.created_at } : {}),
+    ...(item.updated_at ? { updated_at: item.updated_at } : {}),
+  };
+};
+
+export const findContentTool: ToolSpec<FindContentArgs, FindContentResult> = {
+  name: 'find_content',
+  description: 'Search for content by type and query, optionally in post bodies and under one subject or problem. Results are paginated.',
+  sideEffect: 'read',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'The search query for finding content',
+        minLength: 1,
+      },
+      type: {
+        type: 'string',
+        enum: ['all', 'subject', 'problem', 'idea'],
+        description: 'The type of content to search for (subject, problem, idea, or all). Defaults to "all" if not specified.',
+      },
+      search_in: {
+        type: 'string',
+        enum: ['title', 'body', 'all'],
+        description: 'Where to look for the query: titles, post bodies, or both. Defaults to "title".',
+      },
+      parent_id: {
+        type: 'string',
+        description: 'Only return posts under this subject or problem. Requires parent_type.',
+        minLength: 1,
+      },
+      parent_type: {
+        type: 'string',
+        enum: ['subject', 'problem'],
+        description: 'Whether parent_id is a subject or a problem',
+      },
+      sort: {
+        type: 'string',
+        enum: ['relevance', 'recent', 'title'],
+        description: 'Result order: the API default, newest first, or by title. Defaults to "relevance".',
+      },
+      page: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Page number, starting at 1. Defaults to 1.',
+      },
+      per_page: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 50,
+        description: `Items per page. Defaults to ${DEFAULT_PER_PAGE}.`,
+      }
+    },
+    required: ['query'],
+  },
+  handler: async (args, context) => {
+    const postType = (args.type || 'all').toLowerCase();
+    const searchIn = args.search_in || 'title';
+    const page = args.page ?? 1;
+    const perPage = args.per_page ?? DEFAULT_PER_PAGE;
+    const parentType = args.parent_id ? args.parent_type : undefined;
+    if (args.parent_id && !parentType) {
+      throw new Error('parent_type is required together with parent_id');
+    }
+
+    const stableArgs = JSON.stringify({
+      query: args.query || '',
+      type: postType,
+      searchIn,
+      parent: parentType ? `${parentType}:${args.parent_id}` : null,
+      sort: args.sort || 'relevance',
+      page,
+      perPage
+    });
+    const cacheKey = `find_content|${stableArgs}`;
+    const now = Date.now();
+    const cached = toolResultCache.get(cacheKey);
+    if (cached && cached.expiryMs > now) {
+      return cached.payload;
+    }
+
+    const url = new URL(`${getApiBaseUrl()}/api/v1/posts`);
+    url.searchParams.append('type', postType);
+    url.searchParams.append(`q[${SEARCH_PREDICATES[searchIn]}]`, args.query);
+    if (parentType && args.parent_id) {
+      url.searchParams.append(`q[${parentType}_id_eq]`, args.parent_id);
+    }
+    if (args.sort && args.sort !== 'relevance') {
+      url.searchParams.append('q[s]', SORTS[args.sort]);
+    }
+    url.searchParams.append('page', String(page));
+    url.searchParams.append('per_page', String(perPage));
+
+    const response = await fetchApi(url.toString(), {
+      method: 'GET',
+      headers: buildApiHeaders(context),
+      signal: context.signal
+    });
+    const payload = await readApiResponse<{ content?: unknown }>(response);
+
+    const items = extractPosts(payload?.content, postType).map(item => toFoundContent(item, postType));
+    const result: FindContentResult = { items, ...readPageInfo(payload, page, perPage, items.length) };
+    toolResultCache.set(cacheKey, { expiryMs: now + TOOL_CACHE_TTL_MS, payload: result });
+    return result;
+  }
+};
@@ -0,0 +1,58 @@
+import { ToolSpec } from '@/types/tools';
+import { ContentSummary } from '@/utils/tools/needpedia';
+import { ContentDetail, fetchContent } from '@/utils/tools/getContent';
+
+export interface GetAncestorsArgs {
+  content_id: string;
+}
+
+export interface GetAncestorsResult {
+  post: ContentSummary;
+  // From the top-level subject down to the post's direct parent
+  ancestors: ContentSummary[];
+}
+
+// subject → problem → idea is at most two hops up
+const MAX_DEPTH = 2;
+
+const toSummary = (detail: ContentDetail): ContentSummary => ({
+  title: detail.title,
+  type: detail.type,
+  id: detail.id,
+  ...(detail.link ? { link: detail.link } : {})
+});
+
+export const getAncestorsTool: ToolSpec<GetAncestorsArgs, GetAncestorsResult> = {
+  name: 'get_ancestors',
+  description: 'Get the problem and subject a post belongs to, from the subject down',
+  sideEffect: 'read',
+  parameters: {
+    type: 'object',
+    properties: {
+      content_id: {
+        type: 'string',
+        description: 'The ID of the idea or problem',
+        minLength: 1,
+      }
+    },
+    required: ['content_id'],
+  },
+  handler: async (args, context) => {
+    const post = await fetchContent(args.content_id, context);
+    const ancestors: ContentSummary[] = [];
+
+    let parent = post.parent;
+    while (parent && ancestors.length < MAX_DEPTH) {
+      if (!parent.id) {
+        // Only the title is known, so the walk cannot go further up
+        ancestors.unshift({ title: parent.title || 'Untitled', type: parent.type });
+        break;
+      }
+      const detail = await fetchContent(parent.id, context);
+      ancestors.unshift(toSummary(detail));
+      parent = detail.parent;
+    }
+
+    return { post: toSummary(post), ancestors };
+  }
+};
@@ -0,0 +1,112 @@
+import { ToolContext, ToolSpec } from '@/types/tools';
+import { htmlToMarkdown } from '@/utils/richText';
+import { buildApiHeaders, fetchApi, getApiBaseUrl, isRecord, readApiResponse } from '@/utils/tools/needpedia';
+
+export interface GetContentArgs {
+  content_id: string;
+}
+
+export interface ContentParent {
+  type: 'subject' | 'problem';
+  id?: string;
+  title?: string;
+}
+
+export interface ContentDetail {
+  id: string;
+  title: string;
+  type: string;
+  link?: string;
+  // The stored HTML body converted to markdown, the same format edit_content takes
+  body: string;
+  parent?: ContentParent;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface GetContentResult {
+  post: ContentDetail;
+}
+
+const readString = (source: Record<string, unknown>, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === 'string' && value.trim()) return value;
+    if (typeof value === 'number') return String(value);
+  }
+  return undefined;
+};
+
+// The body has come back as an HTML string, as `{ body }` and as ActionText's `{ body: { body } }`
+const readBody = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (isRecord(value)) return readBody(value.body);
+  return '';
+};
+
+// Parents come as nested records (`subject: { id, title }`), bare titles (`subject: "Transport"`) or ids
+const readParent = (post: Record<string, unknown>, type: ContentParent['type']): ContentParent | undefined => {
+  const nested = post[type];
+  const id = readString(post, [`${type}_id`]) ?? (isRecord(nested) ? readString(nested, ['id']) : undefined);
+  const title = typeof nested === 'string' ? nested : isRecord(nested) ? readString(nested, ['title']) : undefined;
+  return id || title ? { type, ...(id ? { id } : {}), ...(title ? { title } : {}) } : undefined;
+};
+
+const toContentDetail = (post: Record<string, unknown>, contentId: string): ContentDetail => {
+  const type = readString(post, ['post_type', 'type']) || 'post';
+  // An idea hangs under a problem, a problem under a subject
+  const parent = type === 'idea'
+    ? readParent(post, 'problem') ?? readParent(post, 'subject')
+    : type === 'problem' ? readParent(post, 'subject') : undefined;
+  const created = readString(post, ['created_at']);
+  const updated = readString(post, ['updated_at']);
+  return {
+    id: readString(post, ['id']) || contentId,
+    title: readString(post, ['title']) || 'Untitled',
+    type,
+    link: readString(post, ['link', 'url', 'post_url']),
+    body: htmlToMarkdown(readBody(post.content ?? post.body ?? post.description)),
+    ...(parent ? { parent } : {}),
+    ...(created ? { created_at: created } : {}),
+    ...(updated ? { updated_at: updated } : {}),
+  };
+};
+
+// Fetch one post as it is stored now; also used to show the current version in edit previews
+export const fetchContent = async (contentId: string, context: ToolContext): Promise<ContentDetail> => {
+  const response = await fetchApi(`${getApiBaseUrl()}/api/v1/posts/${encodeURIComponent(contentId)}`, {
+    method: 'GET',
+    headers: buildApiHeaders(context),
+    signal: context.signal
+  });
+  const payload = await readApiResponse<Record<string, unknown>>(response);
+
+  const content = isRecord(payload.content) ? payload.content : undefined;
+  const post = [content?.post, payload.post, content, payload].find(
+    (candidate): candidate is Record<string, unknown> => isRecord(candidate) && ('title' in candidate || 'post_type' in candidate)
+  );
+  if (!post) {
+    throw new Error(`Post ${contentId} was not found`);
+  }
+  return toContentDetail(post, contentId);
+};
+
+export const getContentTool: ToolSpec<GetContentArgs, GetContentResult> = {
+  name: 'get_content',
+  description: 'Read one post by ID: its title, type, full body as markdown, parent subject/problem and timestamps. Call it before proposing an edit so the edit starts from the current body.',
+  sideEffect: 'read',
+  parameters: {
+    type: 'object',
+    properties: {
+      content_id: {
+        type: 'string',
+        description: 'The ID of the post to read',
+        minLength: 1,
+      }
+    },
+    required: ['content_id'],
+  },
+  handler: async (args, context) => ({
+    post: await fetchContent(args.content_id, context)
+  })
+};
@@ -0,0 +1,90 @@
+import { ToolSpec } from '@/types/tools';
+import {
+  ContentSummary,
+  PageInfo,
+  buildApiHeaders,
+  extractPosts,
+  fetchApi,
+  getApiBaseUrl,
+  readApiResponse,
+  readPageInfo,
+  summarizePost
+} from '@/utils/tools/needpedia';
+
+export interface ListChildrenArgs {
+  parent_id: string;
+  parent_type: 'subject' | 'problem';
+  page?: number;
+  per_page?: number;
+}
+
+export interface ListChildrenResult extends PageInfo {
+  parent: { id: string; type: 'subject' | 'problem' };
+  items: ContentSummary[];
+}
+
+const DEFAULT_PER_PAGE = 20;
+
+// Problems hang under subjects, ideas under problems
+const CHILD_TYPES: Record<ListChildrenArgs['parent_type'], string> = {
+  subject: 'problem',
+  problem: 'idea',
+};
+
+export const listChildrenTool: ToolSpec<ListChildrenArgs, ListChildrenResult> = {
+  name: 'list_children',
+  description: 'List the problems under a subject or the ideas under a problem, one page at a time',
+  sideEffect: 'read',
+  parameters: {
+    type: 'object',
+    properties: {
+      parent_id: {
+        type: 'string',
+        description: 'The ID of the subject or problem',
+        minLength: 1,
+      },
+      parent_type: {
+        type: 'string',
+        enum: ['subject', 'problem'],
+        description: '"subject" to list its problems, "problem" to list its ideas',
+      },
+      page: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Page number, starting at 1. Defaults to 1.',
+      },
+      per_page: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 50,
+        description: `Items per page. Defaults to ${DEFAULT_PER_PAGE}.`,
+      }
+    },
+    required: ['parent_id', 'parent_type'],
+  },
+  handler: async (args, context) => {
+    const page = args.page ?? 1;
+    const perPage = args.per_page ?? DEFAULT_PER_PAGE;
+    const childType = CHILD_TYPES[args.parent_type];
+
+    const url = new URL(`${getApiBaseUrl()}/api/v1/posts`);
+    url.searchParams.append('type', childType);
+    url.searchParams.append(`q[${args.parent_type}_id_eq]`, args.parent_id);
+    url.searchParams.append('page', String(page));
+    url.searchParams.append('per_page', String(perPage));
+
+    const response = await fetchApi(url.toString(), {
+      method: 'GET',
+      headers: buildApiHeaders(context),
+      signal: context.signal
+    });
+    const payload = await readApiResponse<{ content?: unknown }>(response);
+    const items = extractPosts(payload?.content, childType).map(item => summarizePost(item, childType));
+
+    return {
+      parent: { id: args.parent_id, type: args.parent_type },
+      items,
+      ...readPageInfo(payload, page, perPage, items.length)
+    };
+  }
+};
@@ -0,0 +1,144 @@
+import { throwIfAborted } from '@/utils/abort';
+import type { NeedpediaPost, PublishedPost } from '@/utils/tools/needpedia';
+
+// An in-process stand-in for the Needpedia posts API, answering the requests the tools make.
+// It is used with the mock provider (LLM_PROVIDER=mock), so scripted turns run their tool rounds,
+// previews and confirmed writes without a backend. LLM_MOCK_TOOLS=false sends the tools to the real API.
+
+interface MockPost {
+  id: string;
+  title: string;
+  post_type: 'subject' | 'problem' | 'idea';
+  body: string;
+  subject_id?: string;
+  problem_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const SEED_TIME = '2024-01-01T00:00:00.000Z';
+
+const SEED_POSTS: MockPost[] = [
+  { id: '1', title: 'Urban mobility', post_type: 'subject', body: '<p>Getting around cities.</p>', created_at: SEED_TIME, updated_at: SEED_TIME },
+  { id: '7', title: 'Dangerous streets for cyclists', post_type: 'problem', subject_id: '1', body: '<p>Cyclists share busy roads with cars.</p>', created_at: SEED_TIME, updated_at: SEED_TIME },
+  { id: '12', title: 'Car-free Sundays', post_type: 'idea', problem_id: '7', body: '<p>Close the centre to cars once a week.</p>', created_at: SEED_TIME, updated_at: SEED_TIME },
+];
+
+let posts: Map<string, MockPost> = new Map();
+let nextId = 100;
+
+// Back to the seeded posts, e.g. between tests
+export const resetMockApi = (): void => {
+  posts = new Map(SEED_POSTS.map(post => [post.id, { ...post }]));
+  nextId = 100;
+};
+resetMockApi();
+
+export const usesMockApi = (): boolean =>
+  (process.env.LLM_PROVIDER || '').toLowerCase() === 'mock' && process.env.LLM_MOCK_TOOLS !== 'false';
+
+const json = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const linkOf = (post: MockPost): string => `https://needpedia.example/posts/${post.id}`;
+
+const toApiPost = (post: MockPost): NeedpediaPost => ({
+  id: post.id,
+  title: post.title,
+  post_type: post.post_type,
+  link: linkOf(post),
+  ...(post.subject_id ? { subject_id: post.subject_id } : {}),
+  ...(post.problem_id ? { problem_id: post.problem_id } : {}),
+  content: { body: post.body },
+  created_at: post.created_at,
+  updated_at: post.updated_at,
+});
+
+const toPublished = (post: MockPost): PublishedPost => ({
+  link: linkOf(post),
+  title: post.title,
+  content: post.body,
+  post_type: post.post_type,
+  curated: false,
+  disabled: false,
+  private: false,
+  ...(post.problem_id ? { problem: post.problem_id } : {}),
+  ...(post.subject_id ? { subject: post.subject_id } : {}),
+});
+
+// The ransack-style filters the tools send: `q[<field>_cont]`, `q[subject_id_eq]`, `q[problem_id_eq]`
+const listPosts = (params: URLSearchParams): Response => {
+  const type = params.get('type') || 'all';
+  const page = Math.max(1, Number(params.get('page') || 1));
+  const perPage = Math.max(1, Number(params.get('per_page') || 10));
+  let found = [...posts.values()].filter(post => type === 'all' || post.post_type === type);
+  params.forEach((value, key) => {
+    const filter = /^q\[(\w+?)_(cont|eq)\]$/.exec(key);
+    if (!filter) return;
+    const [, field, predicate] = filter;
+    if (predicate === 'eq') {
+      found = found.filter(post => post[field as 'subject_id' | 'problem_id'] === value);
+      return;
+    }
+    const needle = value.toLowerCase();
+    found = found.filter(post => field.split('_or_').some(part =>
+      (part === 'body' ? post.body : post.title).toLowerCase().includes(needle)));
+  });
+  const items = found.slice((page - 1) * perPage, page * perPage).map(toApiPost);
+  return json(200, { content: items, meta: { total_count: found.length } });
+};
+
+const readPost = (body: BodyInit | null | undefined): Record<string, unknown> => {
+  const parsed = typeof body === 'string' ? JSON.parse(body) as { post?: Record<string, unknown> } : {};
+  return parsed.post ?? {};
+};
+
+const bodyOf = (fields: Record<string, unknown>): string | undefined => {
+  const content = (fields.content ?? fields.content_attributes) as { body?: unknown } | undefined;
+  return typeof content?.body === 'string' ? content.body : undefined;
+};
+
+// Answer one API request the way the Rails API would; unknown routes get a 404
+export const mockApiFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  throwIfAborted(init.signal ?? undefined);
+  const { pathname, searchParams } = new URL(url);
+  const method = (init.method || 'GET').toUpperCase();
+
+  if (pathname === '/api/v1/posts' && method === 'GET') return listPosts(searchParams);
+
+  if (pathname === '/api/v1/posts' && method === 'POST') {
+    const fields = readPost(init.body);
+    const now = new Date().toISOString();
+    const post: MockPost = {
+      id: String(nextId++),
+      title: String(fields.title || 'Untitled'),
+      post_type: (fields.post_type as MockPost['post_type']) || 'idea',
+      body: bodyOf(fields) ?? '',
+      ...(typeof fields.subject_id === 'string' ? { subject_id: fields.subject_id } : {}),
+      ...(typeof fields.problem_id === 'string' ? { problem_id: fields.problem_id } : {}),
+      created_at: now,
+      updated_at: now,
+    };
+    posts.set(post.id, post);
+    return json(201, { content: { post: toPublished(post) } });
+  }
+
+  const single = /^\/api\/v1\/posts\/([^/]+)$/.exec(pathname);
+  if (single && method === 'GET') {
+    const post = posts.get(decodeURIComponent(single[1]));
+    return post ? json(200, { content: { post: toApiPost(post) } }) : json(404, { message: 'Post not found' });
+  }
+
+  const update = /^\/posts\/([^/]+)\/api_update$/.exec(pathname);
+  if (update && method === 'PUT') {
+    const post = posts.get(decodeURIComponent(update[1]));
+    if (!post) return json(404, { message: 'Post not found' });
+    const fields = readPost(init.body);
+    if (typeof fields.title === 'string') post.title = fields.title;
+    post.body = bodyOf(fields) ?? post.body;
+    post.updated_at = new Date().toISOString();
+    return json(200, { content: { post: toPublished(post) } });
+  }
+
+  return json(404, { message: `No mock for ${method} ${pathname}` });
+};
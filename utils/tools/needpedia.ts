@@ -0,0 +1,169 @@
+import { ToolContext } from '@/types/tools';
+import { mockApiFetch, usesMockApi } from '@/utils/tools/mockApi';
+
+// Shared plumbing for tools backed by the Needpedia Rails API
+
+export interface NeedpediaPost {
+  id?: string | number;
+  title?: string;
+  post_type?: string;
+  link?: string;
+  url?: string;
+  post_url?: string;
+  subject_id?: string | number;
+  problem_id?: string | number;
+  // HTML body, as a string or ActionText's `{ body }`
+  content?: unknown;
+  description?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type NeedpediaContentBuckets = Partial<Record<'subjects' | 'problems' | 'ideas', NeedpediaPost[]>> & Record<string, NeedpediaPost[] | undefined>;
+
+// Post as returned by the create/update endpoints
+export interface PublishedPost {
+  link: string;
+  title: string;
+  content: string;
+  post_type: string;
+  curated: boolean;
+  group_id?: string;
+  disabled: boolean;
+  private: boolean;
+  problem?: string;
+  subject?: string;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+const isNeedpediaPost = (value: unknown): value is NeedpediaPost => {
+  if (!isRecord(value)) return false;
+  return typeof value.title === 'string' || typeof value.post_type === 'string';
+};
+
+export const normalizePostArray = (value: unknown): NeedpediaPost[] => {
+  return Array.isArray(value) ? value.filter(isNeedpediaPost) : [];
+};
+
+// The posts index answers with a flat array or with posts bucketed by type
+export const extractPosts = (content: unknown, postType: string): NeedpediaPost[] => {
+  if (Array.isArray(content)) return normalizePostArray(content);
+  if (!isRecord(content)) return [];
+
+  const bucket = content as NeedpediaContentBuckets;
+  let source: NeedpediaPost[];
+  if (postType === 'problem') {
+    source = normalizePostArray(bucket.problems);
+  } else if (postType === 'idea') {
+    source = normalizePostArray(bucket.ideas);
+  } else {
+    source = normalizePostArray(bucket.subjects);
+  }
+
+  if (source.length === 0) {
+    const fallbackArray = Object.values(bucket).find(Array.isArray);
+    source = normalizePostArray(fallbackArray);
+  }
+  return source;
+};
+
+export interface ContentSummary {
+  title: string;
+  type: string;
+  id?: string;
+  link?: string;
+}
+
+export const summarizePost = (item: NeedpediaPost, fallbackType: string): ContentSummary => ({
+  title: item.title || 'Untitled',
+  type: item.post_type || fallbackType,
+  id: item.id !== undefined ? String(item.id) : undefined,
+  link: item.link || item.url || item.post_url || undefined
+});
+
+export interface PageInfo {
+  page: number;
+  per_page: number;
+  total?: number;
+  has_more: boolean;
+}
+
+const readCount = (source: Record<string, unknown>, keys: string[]): number | undefined => {
+  for (const key of keys) {
+    const value = Number(source[key]);
+    if (source[key] !== undefined && source[key] !== null && Number.isFinite(value)) return value;
+  }
+  return undefined;
+};
+
+// Pagination as reported under `meta` or `pagination` (Kaminari/Pagy style), falling back to
+// "a full page probably has a next one" when the API reports nothing
+export const readPageInfo = (payload: unknown, page: number, perPage: number, received: number): PageInfo => {
+  const root = isRecord(payload) ? payload : {};
+  const meta = [root.meta, root.pagination, isRecord(root.meta) ? root.meta.pagination : undefined].find(isRecord) ?? root;
+  const total = readCount(meta, ['total_count', 'total', 'count']);
+  const totalPages = readCount(meta, ['total_pages', 'pages']);
+  const nextPage = meta.next_page;
+
+  let hasMore: boolean;
+  if (totalPages !== undefined) {
+    hasMore = page < totalPages;
+  } else if (total !== undefined) {
+    hasMore = page * perPage < total;
+  } else if (nextPage !== undefined) {
+    hasMore = nextPage !== null && nextPage !== false;
+  } else {
+    hasMore = received >= perPage;
+  }
+  return { page, per_page: perPage, ...(total !== undefined ? { total } : {}), has_more: hasMore };
+};
+
+export const getApiBaseUrl = (): string => process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000';
+
+// Every tool request to the Needpedia API goes through here; with the mock provider it is answered in-process
+export const fetchApi = (url: string, init: RequestInit): Promise<Response> =>
+  usesMockApi() ? mockApiFetch(url, init) : fetch(url, init);
+
+export const buildApiHeaders = (context: ToolContext, extra: Record<string, string> = {}): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...extra,
+  'Authorization': `Bearer ${process.env.POST_TOKEN || ''}`,
+  ...(context.userToken ? { 'token': context.userToken } : {})
+});
+
+// The API answered with an error status
+export class ApiRequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(`API request failed: ${status} - ${message}`);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
+// Thrown by a tool before it sends anything to the API, so nothing was written
+export class ToolPreconditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolPreconditionError';
+  }
+}
+
+// A failed write is only known not to have happened when it was refused before the request went out, or
+// the API turned it down (4xx); a 5xx, a dropped connection or a timeout may follow a write that went through
+export const isUnwrittenError = (error: unknown): boolean => {
+  return error instanceof ToolPreconditionError || (error instanceof ApiRequestError && error.status < 500);
+};
+
+// Parse a Needpedia API response, raising the API's own message on failure
+export const readApiResponse = async <T>(response: Response): Promise<T> => {
+  const payload = await response.json().catch(() => ({} as { message?: string }));
+  if (!response.ok) {
+    throw new ApiRequestError(response.status, (payload as { message?: string })?.message || response.statusText);
+  }
+  return payload as T;
+};
@@ -0,0 +1,148 @@
+import { ToolDefinition } from '@/types/llm';
+import { ToolContext, ToolErrorResult, ToolExecution, ToolSpec } from '@/types/tools';
+import { validateJsonSchema } from '@/utils/jsonSchema';
+import { ConfirmationTicket, TicketRejection, confirmationTickets } from '@/utils/confirmationTickets';
+import { isAbortError } from '@/utils/abort';
+import { isUnwrittenError } from '@/utils/tools/needpedia';
+import { findContentTool } from '@/utils/tools/findContent';
+import { getContentTool } from '@/utils/tools/getContent';
+import { listChildrenTool } from '@/utils/tools/listChildren';
+import { getAncestorsTool } from '@/utils/tools/getAncestors';
+import { createContentTool } from '@/utils/tools/createContent';
+import { editContentTool } from '@/utils/tools/editContent';
+
+// Every tool the model can call. Adding a Needpedia tool means adding its spec here.
+const TOOLS: Array<ToolSpec<never, unknown>> = [
+  findContentTool,
+  getContentTool,
+  listChildrenTool,
+  getAncestorsTool,
+  createContentTool,
+  editContentTool,
+];
+
+const toolsByName: Map<string, ToolSpec<never, unknown>> = new Map(TOOLS.map(tool => [tool.name, tool]));
+
+export const getTool = (name: string): ToolSpec<never, unknown> | undefined => toolsByName.get(name);
+
+// Tool schemas in the OpenAI `tools` format sent with every completion request
+export const getToolDefinitions = (): ToolDefinition[] => TOOLS.map(tool => ({
+  type: 'function',
+  function: {
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters as unknown as Record<string, unknown>,
+  },
+}));
+
+const toolError = (name: string, result: ToolErrorResult): ToolExecution => ({ ok: false, name, result });
+
+const TICKET_REJECTIONS: Record<TicketRejection, string> = {
+  confirmation_missing: 'A confirmation_ticket from the preview is required when "confirm" is true.',
+  confirmation_invalid: 'The confirmation_ticket does not belong to this conversation, user or tool.',
+  confirmation_expired: 'The confirmation_ticket has expired.',
+  confirmation_mismatch: 'The arguments differ from the previewed ones.',
+  confirmation_not_approved: 'The user has not approved this preview yet.',
+  confirmation_used: 'The confirmation_ticket has already been used.',
+};
+
+const requiresConfirmation = (result: unknown): result is {
+  requires_confirmation: true;
+  preview?: Record<string, unknown>;
+  // Set when the preview must not be approved as shown
+  duplicate_warning?: string;
+} => {
+  return typeof result === 'object' && result !== null && (result as { requires_confirmation?: unknown }).requires_confirmation === true;
+};
+
+// Parse, validate and run one tool call. Failures come back as structured results the model can act on.
+export const executeToolCall = async (
+  name: string,
+  argsString: string | undefined,
+  context: ToolContext
+): Promise<ToolExecution> => {
+  // Nothing runs after the user stopped the turn, least of all a write
+  if (context.signal?.aborted) {
+    return toolError(name, {
+      error: 'cancelled',
+      message: 'The user stopped this response before the tool ran.'
+    });
+  }
+
+  const tool = getTool(name);
+  if (!tool) {
+    return toolError(name, {
+      error: 'unsupported_tool',
+      message: `Unsupported tool: ${name}`,
+      instructions: `Use one of: ${TOOLS.map(t => t.name).join(', ')}.`
+    });
+  }
+
+  let args: unknown;
+  try {
+    args = JSON.parse(argsString || '{}');
+  } catch (error: unknown) {
+    return toolError(name, {
+      error: 'invalid_json',
+      message: `Arguments are not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      instructions: `Call ${name} again with a single JSON object as arguments.`
+    });
+  }
+
+  const issues = validateJsonSchema(tool.parameters, args);
+  if (issues.length > 0) {
+    return toolError(name, {
+      error: 'invalid_arguments',
+      message: `Arguments for ${name} do not match its schema`,
+      issues,
+      instructions: `Fix the listed arguments and call ${name} again.`
+    });
+  }
+
+  // Write tools only run for real with an approved ticket issued by their own preview
+  const record = args as Record<string, unknown>;
+  const userToken = context.userToken || '';
+  let redeemedTicket: ConfirmationTicket | undefined;
+  if (tool.sideEffect === 'write' && record.confirm === true) {
+    const ticketId = typeof record.confirmation_ticket === 'string' ? record.confirmation_ticket : undefined;
+    const redemption = confirmationTickets.redeem(ticketId, context.conversationId, userToken, name, record);
+    if (!redemption.ok) {
+      return toolError(name, {
+        error: redemption.reason,
+        message: TICKET_REJECTIONS[redemption.reason],
+        instructions: `Call ${name} without "confirm" to get a fresh preview, show it to the user and wait for their approval.`
+      });
+    }
+    redeemedTicket = redemption.ticket;
+  }
+
+  try {
+    const result = await tool.handler(args as never, redeemedTicket ? { ...context, ticket: redeemedTicket } : context);
+    if (tool.sideEffect === 'write' && requiresConfirmation(result)) {
+      const ticket = confirmationTickets.issue(context.conversationId, userToken, name, record, result.preview, result.duplicate_warning);
+      return {
+        ok: true,
+        name,
+        result: {
+          ...result,
+          confirmation_ticket: ticket.id,
+          instructions: `Show this preview to the user and ask them to approve it. Only after they approve, call ${name} again with the same arguments plus "confirm": true and "confirmation_ticket": "${ticket.id}".`
+        }
+      };
+    }
+    return { ok: true, name, result };
+  } catch (error: unknown) {
+    // A write that may have reached the API keeps its ticket used: running it again could write twice
+    if (redeemedTicket && isUnwrittenError(error)) confirmationTickets.release(redeemedTicket.id);
+    if (isAbortError(error, context.signal)) {
+      return toolError(name, {
+        error: 'cancelled',
+        message: 'The user stopped this response while the tool was running.'
+      });
+    }
+    return toolError(name, {
+      error: 'tool_failed',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};